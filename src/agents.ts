@@ -0,0 +1,76 @@
+import crypto from 'node:crypto';
+import type { AgentConfig, WrapperConfig } from './types.ts';
+
+const AGENT_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export function isValidAgentName(name: string): boolean {
+  return typeof name === 'string' && AGENT_NAME.test(name);
+}
+
+export function hashApiKey(key: string): string {
+  return `sha256:${crypto.createHash('sha256').update(key, 'utf8').digest('hex')}`;
+}
+
+// A rotated-out key keeps working until its grace period ends.
+export function graceActive(expiresAt: string | undefined, now = Date.now()): boolean {
+  return !!expiresAt && Date.parse(expiresAt) > now;
+}
+
+export function findAgent(cfg: WrapperConfig, name: string): AgentConfig | undefined {
+  return (cfg.agents || []).find((a) => a.name === name);
+}
+
+function sameHash(stored: string | undefined, presented: Buffer): boolean {
+  const buf = Buffer.from(stored || '', 'utf8');
+  return buf.length === presented.length && crypto.timingSafeEqual(buf, presented);
+}
+
+export function findAgentByKey(cfg: WrapperConfig, key: string, now = Date.now()): AgentConfig | undefined {
+  const presented = Buffer.from(hashApiKey(key), 'utf8');
+  // Walk every agent so lookup time does not depend on which entry matched.
+  let match: AgentConfig | undefined;
+  for (const agent of cfg.agents || []) {
+    const current = sameHash(agent.keyHash, presented);
+    const previous = sameHash(agent.previousKeyHash, presented) && graceActive(agent.previousKeyExpiresAt, now);
+    if ((current || previous) && !match) match = agent;
+  }
+  return match;
+}
+
+// Layers an agent's overrides over the global policy. Callers without an agent
+// (the legacy shared API key) get the global config unchanged.
+export function effectiveConfig(cfg: WrapperConfig, agentName?: string): WrapperConfig {
+  const agent = agentName ? findAgent(cfg, agentName) : undefined;
+  if (!agent) return cfg;
+  const o = agent.policy || {};
+  const calendarIds = agent.calendarIds
+    ? cfg.calendar.ids.filter((id) => agent.calendarIds!.includes(id))
+    : cfg.calendar.ids;
+  const writable = o.calendarWrite?.allowedCalendarIds ?? cfg.policy.calendarWrite.allowedCalendarIds;
+  const allowedCalendarIds = agent.calendarIds ? writable.filter((id) => calendarIds.includes(id)) : writable;
+  // An empty write list falls back to calendar.ids, so losing every writable
+  // calendar to the agent restriction has to disable writes outright.
+  const writeEnabled = (o.calendarWrite?.enabled ?? cfg.policy.calendarWrite.enabled) && !(writable.length > 0 && allowedCalendarIds.length === 0);
+  return {
+    ...cfg,
+    calendar: { ids: calendarIds },
+    policy: {
+      email: {
+        ...cfg.policy.email,
+        ...o.email,
+        categoryActions: { ...cfg.policy.email.categoryActions, ...o.email?.categoryActions },
+        redaction: { ...cfg.policy.email.redaction, ...o.email?.redaction },
+      },
+      calendar: { ...cfg.policy.calendar, ...o.calendar },
+      calendarWrite: {
+        ...cfg.policy.calendarWrite,
+        ...o.calendarWrite,
+        enabled: writeEnabled,
+        allowedCalendarIds,
+      },
+      // Agent overrides only apply when the global policy defines the section.
+      emailModify: cfg.policy.emailModify && { ...cfg.policy.emailModify, ...o.emailModify },
+      outbound: { ...cfg.policy.outbound, ...o.outbound },
+    }
+  };
+}
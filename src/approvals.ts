@@ -0,0 +1,118 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Recipients } from './types.ts';
+
+export type OutboundRequest = Recipients & { threadId?: string; subject: string; body: string };
+
+export type PendingSend = {
+  id: string;
+  kind: 'reply' | 'new';
+  principal: string;
+  createdAt: string;
+  expiresAt: string;
+  request: OutboundRequest;
+};
+
+function approvalDir(): string {
+  return process.env.SECURE_WRAPPER_APPROVAL_DIR || path.join(process.cwd(), 'logs', 'pending-sends');
+}
+
+function isSafeId(id: string): boolean {
+  return /^[a-f0-9-]{16,64}$/i.test(id);
+}
+
+function itemFile(id: string): string {
+  return path.join(approvalDir(), `${id}.json`);
+}
+
+function readItem(file: string): PendingSend | null {
+  try {
+    const item = JSON.parse(fs.readFileSync(file, 'utf8')) as PendingSend;
+    // Items queued before multi-recipient support hold `to` as one address.
+    if (typeof item.request?.to === 'string') item.request.to = [item.request.to];
+    return item;
+  } catch {
+    return null;
+  }
+}
+
+function writeItem(item: PendingSend) {
+  fs.mkdirSync(approvalDir(), { recursive: true, mode: 0o700 });
+  const file = itemFile(item.id);
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(item, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+}
+
+export function enqueuePending(input: { kind: PendingSend['kind']; principal: string; request: OutboundRequest; ttlHours: number }): PendingSend {
+  const now = Date.now();
+  const item: PendingSend = {
+    id: crypto.randomUUID(),
+    kind: input.kind,
+    principal: input.principal,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + input.ttlHours * 3_600_000).toISOString(),
+    request: input.request,
+  };
+  writeItem(item);
+  return item;
+}
+
+// Returns live items and removes (and returns) the ones past their expiry so callers can audit them.
+export function sweepPending(nowMs = Date.now()): { items: PendingSend[]; expired: PendingSend[] } {
+  const dir = approvalDir();
+  if (!fs.existsSync(dir)) return { items: [], expired: [] };
+  const items: PendingSend[] = [];
+  const expired: PendingSend[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(dir, name);
+    const item = readItem(file);
+    if (!item) { fs.rmSync(file, { force: true }); continue; }
+    if (Date.parse(item.expiresAt) <= nowMs) {
+      fs.rmSync(file, { force: true });
+      expired.push(item);
+    } else {
+      items.push(item);
+    }
+  }
+  items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return { items, expired };
+}
+
+export function getPending(id: string): PendingSend | null {
+  if (!isSafeId(id)) return null;
+  return readItem(itemFile(id));
+}
+
+export function editPending(id: string, edits: { subject?: string; body?: string }): PendingSend | null {
+  const item = getPending(id);
+  if (!item) return null;
+  if (edits.subject !== undefined) item.request.subject = edits.subject;
+  if (edits.body !== undefined) item.request.body = edits.body;
+  writeItem(item);
+  return item;
+}
+
+// Atomically takes an item out of the queue. Two concurrent approvals race on the
+// rename, so at most one of them ever reaches the provider.
+export function claimPending(id: string): PendingSend | null {
+  if (!isSafeId(id)) return null;
+  const file = itemFile(id);
+  const claimed = `${file}.claimed-${process.pid}-${crypto.randomUUID()}`;
+  try {
+    fs.renameSync(file, claimed);
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return null;
+    throw err;
+  }
+  const item = readItem(claimed);
+  fs.rmSync(claimed, { force: true });
+  return item;
+}
+
+// Puts a claimed item back, e.g. after the provider failed, so the operator can retry.
+export function releasePending(item: PendingSend): void {
+  writeItem(item);
+}
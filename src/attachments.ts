@@ -0,0 +1,140 @@
+import zlib from 'node:zlib';
+import { htmlToText } from './html.ts';
+
+// Attachment gating and best-effort text extraction. Extraction never runs a
+// parser beyond what is here: plain text is decoded, HTML goes through the same
+// converter as bodies, and PDFs have their text operators read out of the
+// content streams.
+
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Most bytes all of a PDF's compressed streams may inflate to together.
+export const MAX_INFLATED_BYTES = 16 * 1024 * 1024;
+
+// Only this much of a PDF is searched for content streams, whatever `maxBytes` allows.
+export const MAX_PDF_SCAN_BYTES = 4 * 1024 * 1024;
+
+// How far before `stream` its dictionary is looked for.
+const MAX_DICT_CHARS = 4096;
+
+export type ExtractedText = { ok: true; text: string } | { ok: false; error: 'extraction_not_supported' | 'extraction_too_large' };
+
+// Entries are exact types or `type/*`. An empty list allows nothing.
+export function mimeTypeAllowed(mimeType: string, allowlist: string[]): boolean {
+  const type = mimeType.trim().toLowerCase();
+  return allowlist.some((entry) => {
+    const e = entry.trim().toLowerCase();
+    return e.endsWith('/*') ? type.startsWith(e.slice(0, -1)) : type === e;
+  });
+}
+
+const TEXT_TYPES = new Set(['text/plain', 'text/csv', 'text/markdown', 'text/calendar', 'application/json']);
+
+function unescapePdfString(s: string): string {
+  return s.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, e: string) => {
+    if (/^[0-7]/.test(e)) return String.fromCharCode(parseInt(e, 8));
+    return ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' } as Record<string, string>)[e] ?? '';
+  });
+}
+
+// A literal string starting at `start`, with balanced parentheses as PDF allows.
+// An unclosed string runs to the end of the content.
+function readLiteral(content: string, start: number): { raw: string; next: number } {
+  let depth = 1;
+  let i = start + 1;
+  for (; i < content.length && depth > 0; i += 1) {
+    if (content[i] === '\\') i += 1;
+    else if (content[i] === '(') depth += 1;
+    else if (content[i] === ')') depth -= 1;
+  }
+  return { raw: content.slice(start + 1, depth === 0 ? i - 1 : i), next: i };
+}
+
+const DELIMITERS = new Set([' ', '\t', '\r', '\n', '\f', '\0', '(', ')', '[', ']', '<', '>', '/', '%']);
+const TEXT_SHOWING = new Set(['Tj', 'TJ', "'", '"']);
+const LINE_BREAKING = new Set(['T*', 'Td', 'TD', 'ET']);
+
+// Literal strings shown with Tj, TJ, ' and ", with line breaks at T*, Td, TD and ET.
+// Hex strings and custom font encodings are not decoded. One forward pass, so
+// malformed content costs no more than its length.
+function textFromContent(content: string): string {
+  let out = '';
+  let operands: string[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '(') {
+      const lit = readLiteral(content, i);
+      operands.push(unescapePdfString(lit.raw));
+      i = lit.next;
+      continue;
+    }
+    const name = ch === '/';
+    if (DELIMITERS.has(ch) && !name) {
+      i += 1;
+      continue;
+    }
+    let j = i + 1;
+    while (j < content.length && !DELIMITERS.has(content[j])) j += 1;
+    const token = content.slice(i, j);
+    i = j;
+    // Numbers and names are operands; anything else is an operator and ends the run.
+    if (name || /^[+-]?\d*\.?\d+$/.test(token)) continue;
+    if (TEXT_SHOWING.has(token)) out += operands.join('');
+    else if (LINE_BREAKING.has(token)) out += '\n';
+    operands = [];
+  }
+  return out;
+}
+
+// Streams inflate within what is left of `maxInflatedBytes`; going over it fails
+// the whole extraction. Reading stops once more than `maxChars` of text is in
+// hand, so the caller's cap still sees the text as truncated.
+export function extractPdfText(data: Buffer, maxChars: number, maxInflatedBytes = MAX_INFLATED_BYTES): ExtractedText {
+  const raw = data.subarray(0, MAX_PDF_SCAN_BYTES).toString('latin1');
+  const parts: string[] = [];
+  let inflated = 0;
+  let chars = 0;
+  // Plain indexOf scanning that only moves forward, so malformed input stays linear.
+  let pos = 0;
+  let dictFrom = 0;
+  while (chars <= maxChars) {
+    const at = raw.indexOf('stream', pos);
+    if (at < 0) break;
+    pos = at + 'stream'.length;
+    if (!/>>\s*$/.test(raw.slice(Math.max(dictFrom, at - 16), at))) continue;
+    const eol = raw.startsWith('\r\n', pos) ? 2 : raw[pos] === '\n' ? 1 : 0;
+    if (!eol) continue;
+    const end = raw.indexOf('endstream', pos);
+    if (end < 0) break;
+    const dict = raw.slice(Math.max(dictFrom, at - MAX_DICT_CHARS), at);
+    let content = raw.slice(pos + eol, end).replace(/\r?\n$/, '');
+    pos = end + 'endstream'.length;
+    dictFrom = pos;
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        const out = zlib.inflateSync(Buffer.from(content, 'latin1'), { maxOutputLength: Math.max(1, maxInflatedBytes - inflated) });
+        inflated += out.length;
+        content = out.toString('latin1');
+      } catch (err: any) {
+        if (err?.code === 'ERR_BUFFER_TOO_LARGE') return { ok: false, error: 'extraction_too_large' };
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    }
+    if (!/\bBT\b/.test(content)) continue;
+    const text = textFromContent(content);
+    parts.push(text);
+    chars += text.length;
+  }
+  return { ok: true, text: parts.join('\n').split('\n').map((l) => l.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n') };
+}
+
+export function extractAttachmentText(data: Buffer, mimeType: string, maxChars: number): ExtractedText {
+  const type = mimeType.trim().toLowerCase();
+  if (type === 'application/pdf') return extractPdfText(data, maxChars);
+  if (type === 'text/html') return { ok: true, text: htmlToText(data.toString('utf8')).text };
+  if (TEXT_TYPES.has(type)) return { ok: true, text: data.toString('utf8') };
+  return { ok: false, error: 'extraction_not_supported' };
+}
@@ -0,0 +1,201 @@
+import fs from 'node:fs';
+import zlib from 'node:zlib';
+import { archiveRotatedAt, auditFile, hashAuditValue, listAuditArchives } from './audit.ts';
+
+export type AuditRow = Record<string, unknown> & { ts: string; action: string; principal?: string };
+
+export type AuditFilter = {
+  principal?: string;
+  actions?: string[];
+  since?: string;
+  until?: string;
+  path?: string;
+  recipient?: string;
+  reason?: string;
+};
+
+export type AuditPage = { total: number; offset: number; limit: number; nextOffset: number | null; items: AuditRow[] };
+
+export type SummaryBucket = 'total' | 'day' | 'hour';
+export type SummaryRow = { bucket: string; principal: string; action: string; count: number };
+
+export const MAX_PAGE_SIZE = 1000;
+
+// Archives rotated before `since` hold nothing newer than their rotation time, so they are not opened.
+export function auditFilesSince(since?: string): string[] {
+  const archives = listAuditArchives().filter((file) => {
+    const rotatedAt = archiveRotatedAt(file);
+    return !since || !rotatedAt || rotatedAt >= since;
+  });
+  return [...archives, auditFile()];
+}
+
+async function* readLines(file: string): AsyncGenerator<string> {
+  const raw = fs.createReadStream(file);
+  const input = file.endsWith('.gz') ? raw.pipe(zlib.createGunzip()) : raw;
+  raw.on('error', (err) => input.destroy(err));
+  input.setEncoding('utf8');
+  let rest = '';
+  for await (const chunk of input) {
+    const lines = (rest + chunk).split('\n');
+    rest = lines.pop()!;
+    yield* lines;
+  }
+  if (rest) yield rest;
+}
+
+// Streams each file line by line. Only rows matching `filter` are kept, so memory
+// follows the result rather than the size of the log.
+export async function readAuditRows(files: string[] = auditFilesSince(), filter: AuditFilter = {}): Promise<AuditRow[]> {
+  const rows: AuditRow[] = [];
+  for (const file of files) {
+    if (!fs.existsSync(file)) continue;
+    try {
+      for await (const line of readLines(file)) {
+        if (!line) continue;
+        try {
+          const row = JSON.parse(line);
+          if (row && typeof row.ts === 'string' && typeof row.action === 'string' && matchesFilter(row, filter)) rows.push(row);
+        } catch {
+          // Query is best effort; verify-audit is the tool that reports damaged lines.
+        }
+      }
+    } catch {
+      // Likewise for an archive that no longer decompresses.
+    }
+  }
+  return rows;
+}
+
+function recipients(row: AuditRow): string[] {
+  const list = [row.to, row.cc, row.bcc].flatMap((v) => (Array.isArray(v) ? v : (typeof v === 'string' ? [v] : [])));
+  return list.filter((x): x is string => typeof x === 'string').map((x) => x.toLowerCase());
+}
+
+export function matchesFilter(row: AuditRow, f: AuditFilter): boolean {
+  if (f.principal && row.principal !== f.principal) return false;
+  if (f.actions?.length && !f.actions.includes(row.action)) return false;
+  if (f.since && row.ts < f.since) return false;
+  if (f.until && row.ts > f.until) return false;
+  if (f.path && !(typeof row.path === 'string' && row.path.startsWith(f.path))) return false;
+  if (f.recipient) {
+    // Recipients may be stored hashed under the audit privacy policy; match either form.
+    const wanted = [f.recipient.toLowerCase(), hashAuditValue(f.recipient)];
+    if (!recipients(row).some((r) => wanted.includes(r))) return false;
+  }
+  if (f.reason && row.reason !== f.reason) return false;
+  return true;
+}
+
+export function queryAudit(rows: AuditRow[], f: AuditFilter, page: { offset?: number; limit?: number } = {}): AuditPage {
+  const matched = rows.filter((r) => matchesFilter(r, f));
+  const offset = Math.max(0, Math.floor(page.offset ?? 0));
+  const limit = Math.max(1, Math.min(Math.floor(page.limit ?? 100), MAX_PAGE_SIZE));
+  const items = matched.slice(offset, offset + limit);
+  return { total: matched.length, offset, limit, nextOffset: offset + limit < matched.length ? offset + limit : null, items };
+}
+
+function bucketOf(ts: string, bucket: SummaryBucket): string {
+  if (bucket === 'day') return ts.slice(0, 10);
+  if (bucket === 'hour') return ts.slice(0, 13);
+  return 'total';
+}
+
+export function summarizeAudit(rows: AuditRow[], f: AuditFilter, bucket: SummaryBucket = 'total'): SummaryRow[] {
+  const counts = new Map<string, SummaryRow>();
+  for (const row of rows) {
+    if (!matchesFilter(row, f)) continue;
+    const b = bucketOf(row.ts, bucket);
+    const principal = row.principal || 'unknown';
+    const key = `${b}\u0000${principal}\u0000${row.action}`;
+    const cur = counts.get(key);
+    if (cur) cur.count += 1;
+    else counts.set(key, { bucket: b, principal, action: row.action, count: 1 });
+  }
+  return [...counts.values()].sort((a, b) => a.bucket.localeCompare(b.bucket) || a.principal.localeCompare(b.principal) || a.action.localeCompare(b.action));
+}
+
+export function isSummaryBucket(v: unknown): v is SummaryBucket {
+  return v === 'total' || v === 'day' || v === 'hour';
+}
+
+export function toJsonl(rows: object[]): string {
+  return rows.map((r) => JSON.stringify(r)).join('\n') + (rows.length ? '\n' : '');
+}
+
+function cell(v: unknown): string {
+  if (v === undefined || v === null) return '';
+  const text = typeof v === 'string' ? v : JSON.stringify(v);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// Fixed-width plain-text table over the union of keys, in first-seen order.
+export function toTable(rows: object[], columns?: string[]): string {
+  const cols = columns ?? [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  const grid = [cols, ...rows.map((r) => cols.map((c) => cell((r as Record<string, unknown>)[c])))];
+  const widths = cols.map((_, i) => Math.max(...grid.map((line) => line[i].length)));
+  return grid.map((line) => line.map((v, i) => v.padEnd(widths[i])).join('  ').trimEnd()).join('\n') + '\n';
+}
+
+export const AUDIT_TABLE_COLUMNS = ['ts', 'seq', 'principal', 'action', 'path', 'reason', 'to', 'id', 'count'];
+
+export type AuditFormat = 'json' | 'jsonl' | 'table';
+
+export type AuditRequest = {
+  filter: AuditFilter;
+  page: { offset?: number; limit?: number };
+  summary?: SummaryBucket;
+  format: AuditFormat;
+};
+
+function isoOrNull(input: string): string | null {
+  const d = new Date(input);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+// Shared by GET /admin/audit and `gshield audit`, so both accept exactly the same parameters.
+export function parseAuditRequest(get: (name: string) => string | undefined, defaultFormat: AuditFormat): { ok: true; req: AuditRequest } | { ok: false; error: string } {
+  const filter: AuditFilter = {};
+  for (const key of ['principal', 'path', 'recipient', 'reason'] as const) {
+    const v = get(key);
+    if (v) filter[key] = v;
+  }
+  const actions = get('action');
+  if (actions) filter.actions = actions.split(',').map((x) => x.trim()).filter(Boolean);
+  for (const key of ['since', 'until'] as const) {
+    const v = get(key);
+    if (!v) continue;
+    const iso = isoOrNull(v);
+    if (!iso) return { ok: false, error: `invalid_${key}` };
+    filter[key] = iso;
+  }
+  const page: AuditRequest['page'] = {};
+  for (const key of ['offset', 'limit'] as const) {
+    const v = get(key);
+    if (v === undefined) continue;
+    if (!/^\d+$/.test(v)) return { ok: false, error: `invalid_${key}` };
+    page[key] = Number(v);
+  }
+  const summary = get('summary');
+  if (summary !== undefined && !isSummaryBucket(summary)) return { ok: false, error: 'invalid_summary' };
+  const format = get('format') ?? defaultFormat;
+  if (format !== 'json' && format !== 'jsonl' && format !== 'table') return { ok: false, error: 'invalid_format' };
+  return { ok: true, req: { filter, page, summary: summary as SummaryBucket | undefined, format } };
+}
+
+export function readAuditRowsFor(req: AuditRequest): Promise<AuditRow[]> {
+  return readAuditRows(auditFilesSince(req.filter.since), req.filter);
+}
+
+export type AuditResult = { json: AuditPage | { bucket: SummaryBucket; rows: SummaryRow[] }; text: string; total: number; nextOffset: number | null };
+
+export function runAuditQuery(req: AuditRequest, rows: AuditRow[]): AuditResult {
+  if (req.summary) {
+    const summary = summarizeAudit(rows, req.filter, req.summary);
+    const text = req.format === 'table' ? toTable(summary, ['bucket', 'principal', 'action', 'count']) : toJsonl(summary);
+    return { json: { bucket: req.summary, rows: summary }, text, total: summary.length, nextOffset: null };
+  }
+  const page = queryAudit(rows, req.filter, req.page);
+  const text = req.format === 'table' ? toTable(page.items, AUDIT_TABLE_COLUMNS) : toJsonl(page.items);
+  return { json: page, text, total: page.total, nextOffset: page.nextOffset };
+}
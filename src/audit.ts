@@ -1,14 +1,32 @@
+import crypto from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
+import zlib from 'node:zlib';
+import type { AuditFieldMode, WrapperConfig } from './types.ts';
 
 const ensuredDirs = new Set<string>();
 
 export type AuditEvent = Record<string, unknown> & { action: string };
 
-function auditFile(): string {
+type AuditSettings = NonNullable<WrapperConfig['audit']>;
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+type ChainHead = { seq: number; hash: string };
+
+// Chain position is kept in memory and mirrored to a sidecar head file, so the
+// chain continues across restarts and across the log file being rotated away.
+const chain: { file: string | null; head: ChainHead | null } = { file: null, head: null };
+let settings: AuditSettings = {};
+
+export function auditFile(): string {
   return process.env.SECURE_WRAPPER_AUDIT || path.join(process.cwd(), 'logs', 'audit.jsonl');
 }
 
+function headFile(file: string): string {
+  return `${file}.head`;
+}
+
 function ensureDir(file: string) {
   const dir = path.dirname(file);
   if (ensuredDirs.has(dir)) return;
@@ -16,8 +34,229 @@ function ensureDir(file: string) {
   ensuredDirs.add(dir);
 }
 
+export function configureAudit(opts: AuditSettings): void {
+  settings = { ...opts };
+}
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+function sign(hash: string, key: string): string {
+  return crypto.createHmac('sha256', key).update(hash).digest('hex');
+}
+
+// Keyed so that low-entropy values (addresses, subjects) cannot be recovered by
+// hashing guesses, yet equal inputs still correlate across entries.
+export function hashAuditValue(value: string): string | null {
+  const key = settings.hashKey || settings.hmacKey;
+  if (!key) return null;
+  return `h:${crypto.createHmac('sha256', key).update(value.trim().toLowerCase()).digest('hex').slice(0, 24)}`;
+}
+
+function protectValue(value: unknown, mode: AuditFieldMode): unknown {
+  if (mode === 'clear') return value;
+  if (mode === 'hash') {
+    if (typeof value === 'string') return hashAuditValue(value) ?? undefined;
+    if (Array.isArray(value)) return value.map((v) => (typeof v === 'string' ? hashAuditValue(v) ?? undefined : v));
+  }
+  return undefined;
+}
+
+// Applies the per-field privacy policy to a key wherever it appears in the entry.
+function applyPrivacy(value: unknown, privacy: Record<string, AuditFieldMode>): unknown {
+  if (Array.isArray(value)) return value.map((v) => applyPrivacy(v, privacy));
+  if (!value || typeof value !== 'object') return value;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    const mode = privacy[k];
+    const next = mode ? protectValue(v, mode) : applyPrivacy(v, privacy);
+    if (next !== undefined) out[k] = next;
+  }
+  return out;
+}
+
+function readLastLine(file: string): string | null {
+  if (!fs.existsSync(file)) return null;
+  const size = fs.statSync(file).size;
+  if (size === 0) return null;
+  const len = Math.min(size, 64 * 1024);
+  const buf = Buffer.alloc(len);
+  const fd = fs.openSync(file, 'r');
+  try { fs.readSync(fd, buf, 0, len, size - len); } finally { fs.closeSync(fd); }
+  const lines = buf.toString('utf8').split('\n').filter(Boolean);
+  return lines.at(-1) ?? null;
+}
+
+function loadHead(file: string): ChainHead | null {
+  let head: ChainHead | null = null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(headFile(file), 'utf8')) as ChainHead;
+    if (Number.isInteger(parsed.seq) && typeof parsed.hash === 'string') head = parsed;
+  } catch {}
+  // The log itself wins when it is ahead, e.g. after a crash between append and head update.
+  try {
+    const last = JSON.parse(readLastLine(file) || 'null');
+    if (last && Number.isInteger(last.seq) && typeof last.hash === 'string' && (!head || last.seq > head.seq)) head = { seq: last.seq, hash: last.hash };
+  } catch {}
+  return head;
+}
+
+function archivePrefix(file: string): string {
+  return `${path.basename(file, '.jsonl')}-`;
+}
+
+// Compressed archives of `file`, oldest first. Names embed the rotation time so they sort chronologically.
+export function listAuditArchives(file = auditFile()): string[] {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) return [];
+  const prefix = archivePrefix(file);
+  return fs.readdirSync(dir)
+    .filter((name) => name.startsWith(prefix) && name.endsWith('.jsonl.gz'))
+    .sort()
+    .map((name) => path.join(dir, name));
+}
+
+// Rotation time from an archive name, as an ISO timestamp. Every entry inside is no later than it.
+export function archiveRotatedAt(file: string): string | null {
+  const m = /-(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z-\d+\.jsonl\.gz$/.exec(path.basename(file));
+  return m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}.${m[7]}Z` : null;
+}
+
+export function readAuditText(file: string): string {
+  const raw = fs.readFileSync(file);
+  return file.endsWith('.gz') ? zlib.gunzipSync(raw).toString('utf8') : raw.toString('utf8');
+}
+
+function needsRotation(file: string, incomingBytes: number, now: Date): boolean {
+  if (!settings.rotateMaxBytes && !settings.rotateDaily) return false;
+  if (!fs.existsSync(file)) return false;
+  const stat = fs.statSync(file);
+  if (stat.size === 0) return false;
+  if (settings.rotateMaxBytes && stat.size + incomingBytes > settings.rotateMaxBytes) return true;
+  return !!settings.rotateDaily && stat.mtime.toISOString().slice(0, 10) !== now.toISOString().slice(0, 10);
+}
+
+function rotate(file: string, now: Date, lastSeq: number): string {
+  // Rotation time, then the last seq inside, so names stay unique and in chain order even within one millisecond.
+  const stamp = now.toISOString().replace(/[-:.]/g, '');
+  const archive = path.join(path.dirname(file), `${archivePrefix(file)}${stamp}-${String(lastSeq).padStart(12, '0')}.jsonl.gz`);
+  const tmp = `${archive}.tmp`;
+  fs.writeFileSync(tmp, zlib.gzipSync(fs.readFileSync(file)), { mode: 0o600 });
+  fs.renameSync(tmp, archive);
+  fs.rmSync(file, { force: true });
+  return archive;
+}
+
+function applyRetention(file: string, now: Date): string[] {
+  if (!settings.retentionDays || settings.retentionDays <= 0) return [];
+  const cutoff = now.getTime() - settings.retentionDays * 86_400_000;
+  const removed: string[] = [];
+  for (const archive of listAuditArchives(file)) {
+    if (fs.statSync(archive).mtime.getTime() < cutoff) {
+      fs.rmSync(archive, { force: true });
+      removed.push(path.basename(archive));
+    }
+  }
+  return removed;
+}
+
+function appendChained(file: string, entry: Record<string, unknown>, now: Date, mayRotate = true) {
+  const prev = chain.head ?? { seq: 0, hash: GENESIS_HASH };
+  const record = { ts: now.toISOString(), ...entry, seq: prev.seq + 1, prev: prev.hash };
+  const hash = sha256(JSON.stringify(record));
+  const line = settings.hmacKey ? { ...record, hash, sig: sign(hash, settings.hmacKey) } : { ...record, hash };
+  const text = JSON.stringify(line) + '\n';
+  if (mayRotate && needsRotation(file, Buffer.byteLength(text), now)) {
+    const archive = rotate(file, now, prev.seq);
+    const removed = applyRetention(file, now);
+    // The rotation marker opens the new file and links it to the archived tail.
+    // Neither it nor the entry that triggered rotation may rotate again, however small the size cap.
+    appendChained(file, { principal: 'system', action: 'audit_rotated', archive: path.basename(archive), removedArchives: removed }, now, false);
+    appendChained(file, entry, now, false);
+    return;
+  }
+  fs.appendFileSync(file, text);
+  chain.head = { seq: record.seq, hash };
+  fs.writeFileSync(headFile(file), JSON.stringify(chain.head));
+}
+
 export function logAudit(entry: AuditEvent): void {
   const file = auditFile();
   ensureDir(file);
-  fs.appendFileSync(file, JSON.stringify({ ts: new Date().toISOString(), ...entry }) + '\n');
+  if (chain.file !== file) {
+    chain.file = file;
+    chain.head = loadHead(file);
+  }
+  const protectedEntry = settings.privacy ? applyPrivacy(entry, settings.privacy) as Record<string, unknown> : entry;
+  appendChained(file, protectedEntry, new Date());
+}
+
+export type AuditVerifyProblem = {
+  kind: 'malformed' | 'truncated' | 'bad_hash' | 'bad_signature' | 'broken_link' | 'gap';
+  file: string;
+  line: number;
+  seq?: number;
+  detail: string;
+};
+
+export type AuditVerifyResult = { ok: boolean; entries: number; firstSeq?: number; lastSeq?: number; problem?: AuditVerifyProblem };
+
+// Walks one or more log files in chain order (oldest first) and stops at the
+// first problem. The very first entry may start mid-chain, since older files
+// can have been rotated away; everything after it must link up exactly.
+export function verifyAuditChain(files: string[], opts: { hmacKey?: string; headFile?: string } = {}): AuditVerifyResult {
+  let prev: ChainHead | null = null;
+  let firstSeq: number | undefined;
+  let entries = 0;
+  const fail = (problem: AuditVerifyProblem): AuditVerifyResult => ({ ok: false, entries, firstSeq, lastSeq: prev?.seq, problem });
+
+  for (const file of files) {
+    const text = readAuditText(file);
+    const lines = text.split('\n');
+    const endsClean = text === '' || text.endsWith('\n');
+    if (endsClean) lines.pop();
+    for (let i = 0; i < lines.length; i += 1) {
+      const lineNo = i + 1;
+      let row: any;
+      try {
+        row = JSON.parse(lines[i]);
+      } catch {
+        const last = i === lines.length - 1;
+        return fail({ kind: last && !endsClean ? 'truncated' : 'malformed', file, line: lineNo, detail: 'line is not valid JSON' });
+      }
+      const { hash, sig, ...record } = row ?? {};
+      if (!Number.isInteger(record.seq) || typeof record.prev !== 'string' || typeof hash !== 'string') {
+        return fail({ kind: 'malformed', file, line: lineNo, detail: 'entry has no chain fields' });
+      }
+      if (sha256(JSON.stringify(record)) !== hash) return fail({ kind: 'bad_hash', file, line: lineNo, seq: record.seq, detail: 'entry content does not match its hash' });
+      if (opts.hmacKey && sig !== sign(hash, opts.hmacKey)) return fail({ kind: 'bad_signature', file, line: lineNo, seq: record.seq, detail: 'HMAC signature missing or invalid' });
+      if (prev) {
+        if (record.seq !== prev.seq + 1) return fail({ kind: 'gap', file, line: lineNo, seq: record.seq, detail: `expected seq ${prev.seq + 1}, found ${record.seq}` });
+        if (record.prev !== prev.hash) return fail({ kind: 'broken_link', file, line: lineNo, seq: record.seq, detail: 'prev does not match the hash of the preceding entry' });
+      } else {
+        firstSeq = record.seq;
+        if (record.seq === 1 && record.prev !== GENESIS_HASH) return fail({ kind: 'broken_link', file, line: lineNo, seq: 1, detail: 'first entry does not link to the genesis hash' });
+      }
+      prev = { seq: record.seq, hash };
+      entries += 1;
+    }
+    if (!endsClean) return fail({ kind: 'truncated', file, line: lines.length, seq: prev?.seq, detail: 'file does not end with a complete line' });
+  }
+
+  // The head file records the last entry ever written; a log that stops short of it lost its tail.
+  if (opts.headFile && fs.existsSync(opts.headFile)) {
+    try {
+      const head = JSON.parse(fs.readFileSync(opts.headFile, 'utf8')) as ChainHead;
+      if (!prev || head.seq > prev.seq || (head.seq === prev.seq && head.hash !== prev.hash)) {
+        const file = files.at(-1) || '';
+        return fail({ kind: 'truncated', file, line: 0, seq: head.seq, detail: `log ends at seq ${prev?.seq ?? 0} but ${head.seq} entries were written` });
+      }
+    } catch {}
+  }
+  return { ok: true, entries, firstSeq, lastSeq: prev?.seq };
+}
+
+export function auditHeadFile(file = auditFile()): string {
+  return headFile(file);
 }
@@ -1,9 +1,25 @@
 import crypto from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
-import type { WrapperConfig } from './types.ts';
+import { findAgent, findAgentByKey, graceActive, hashApiKey } from './agents.ts';
+import type { Scope, WrapperConfig } from './types.ts';
 
-type Claims = { sub: string; iat: number; exp: number; jti: string; aud: string };
+type Claims = { sub: string; iat: number; exp: number; jti: string; aud: string; agent?: string; scope?: Scope[] };
+
+export type AuthResult = { ok: boolean; principal?: string; agent?: string; scopes?: Scope[]; reason?: string };
+
+export const ALL_SCOPES: readonly Scope[] = ['email:read', 'email:reply', 'email:send', 'email:draft', 'email:modify', 'calendar:read', 'calendar:write'];
+
+export function isScope(value: unknown): value is Scope {
+  return typeof value === 'string' && (ALL_SCOPES as readonly string[]).includes(value);
+}
+
+// What a key may do: registered agents are limited to their configured scopes,
+// the shared apiKey (agent undefined) may do everything.
+export function keyScopes(cfg: WrapperConfig, agent?: string): Scope[] {
+  if (!agent) return [...ALL_SCOPES];
+  return (findAgent(cfg, agent)?.scopes ?? [...ALL_SCOPES]).filter(isScope);
+}
 
 const replayState = { lastSweepMs: 0 };
 
@@ -101,24 +117,60 @@ export function startReplaySweeper(intervalMs = 60_000): NodeJS.Timeout {
   }, intervalMs);
 }
 
-export function issueSignedToken(subject: string, cfg: WrapperConfig): string {
-  const header = b64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+// Key id carried in the token header: a short digest of the key, never the key itself.
+export function signingKeyId(key: string): string {
+  return crypto.createHash('sha256').update(`kid:${key}`, 'utf8').digest('hex').slice(0, 16);
+}
+
+// Picks the configured signing key named by the token's `kid`. Tokens without one are not accepted.
+function signingKeyFor(token: string, cfg: WrapperConfig): string | null {
+  try {
+    const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8')) as { alg?: string; kid?: unknown };
+    if (header?.alg !== 'HS256' || typeof header.kid !== 'string') return null;
+    const keys = [cfg.auth.tokenSigningKey, cfg.auth.previousTokenSigningKey].filter(Boolean) as string[];
+    return keys.find((k) => safeEqualText(signingKeyId(k), header.kid as string)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function issueSignedToken(subject: string, cfg: WrapperConfig, agent?: string, scopes: Scope[] = keyScopes(cfg, agent)): string {
+  const header = b64url(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: signingKeyId(cfg.auth.tokenSigningKey) }));
   const now = Math.floor(Date.now() / 1000);
-  const payload = b64url(JSON.stringify({ sub: subject, iat: now, exp: now + cfg.auth.tokenTtlSeconds, jti: crypto.randomUUID(), aud: 'secure-wrapper' }));
+  const claims: Claims = { sub: subject, iat: now, exp: now + cfg.auth.tokenTtlSeconds, jti: crypto.randomUUID(), aud: 'secure-wrapper', scope: scopes };
+  if (agent) claims.agent = agent;
+  const payload = b64url(JSON.stringify(claims));
   const sig = crypto.createHmac('sha256', cfg.auth.tokenSigningKey).update(`${header}.${payload}`).digest('base64url');
   return `${header}.${payload}.${sig}`;
 }
 
-export function authenticate(headers: Headers, cfg: WrapperConfig): { ok: boolean; principal?: string; reason?: string } {
+export function authenticate(headers: Headers, cfg: WrapperConfig): AuthResult {
   const apiKey = headers.get('x-api-key') || headers.get('x-agent-key');
-  if (apiKey && safeEqualText(apiKey, cfg.auth.apiKey)) return { ok: true, principal: 'api-key' };
+  if (apiKey) {
+    const agent = findAgentByKey(cfg, apiKey);
+    if (agent) return { ok: true, principal: agent.name, agent: agent.name, scopes: keyScopes(cfg, agent.name) };
+    if (cfg.auth.apiKey && safeEqualText(apiKey, cfg.auth.apiKey)) return { ok: true, principal: 'api-key', scopes: keyScopes(cfg) };
+    const { previousApiKey, previousApiKeyExpiresAt } = cfg.auth;
+    if (previousApiKey && graceActive(previousApiKeyExpiresAt) && safeEqualText(apiKey, previousApiKey)) return { ok: true, principal: 'api-key', scopes: keyScopes(cfg) };
+  }
   const auth = headers.get('authorization') || '';
   if (!auth.startsWith('Bearer ')) return { ok: false, reason: 'missing_credentials' };
   const token = auth.slice('Bearer '.length);
-  const keys = [cfg.auth.tokenSigningKey, cfg.auth.previousTokenSigningKey].filter(Boolean) as string[];
-  let claims: Claims | null = null;
-  for (const k of keys) { claims = verify(token, k); if (claims) break; }
+  const key = signingKeyFor(token, cfg);
+  const claims = key ? verify(token, key) : null;
   if (!claims) return { ok: false, reason: 'invalid_token' };
+  // An agent removed from the registry loses access at once, even with an unexpired token.
+  if (claims.agent !== undefined && (typeof claims.agent !== 'string' || !findAgent(cfg, claims.agent))) return { ok: false, reason: 'unknown_agent' };
   if (!checkAndMarkReplay(claims.jti, claims.exp)) return { ok: false, reason: 'replay_detected' };
-  return { ok: true, principal: claims.sub };
+  // Tokens without a scope claim grant nothing; an agent's scopes shrinking in config also shrinks its live tokens.
+  const allowed = keyScopes(cfg, claims.agent);
+  const scopes = (Array.isArray(claims.scope) ? claims.scope : []).filter((s) => isScope(s) && allowed.includes(s));
+  // Shared-key subjects live under `api-key:`, so a chosen `sub` can never pass for an agent or the operator.
+  return claims.agent ? { ok: true, principal: claims.agent, agent: claims.agent, scopes } : { ok: true, principal: `api-key:${claims.sub}`, scopes };
+}
+
+export function authenticateOperator(headers: Headers, cfg: WrapperConfig): boolean {
+  const key = headers.get('x-operator-key');
+  if (!key || !cfg.auth.operatorKeyHash) return false;
+  return safeEqualText(hashApiKey(key), cfg.auth.operatorKeyHash);
 }
@@ -0,0 +1,61 @@
+import type { PolicyConfig, SensitiveAction, SensitiveCategory } from './types.ts';
+
+// Sensitive content classification. Each rule names the category it belongs
+// to, so a warning or audit entry can say exactly which rule fired. A rule may
+// carry a `validate` step for patterns that are too loose on their own.
+
+export type SensitiveRule = {
+  category: SensitiveCategory;
+  rule: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+};
+
+export type SensitiveMatch = { category: SensitiveCategory; rule: string };
+
+export type Classifier = (text: string) => SensitiveMatch[];
+
+function luhn(digits: string): boolean {
+  const d = digits.replace(/\D/g, '');
+  if (d.length < 13 || d.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < d.length; i++) {
+    let n = Number(d[d.length - 1 - i]);
+    if (i % 2 === 1) n = n * 2 > 9 ? n * 2 - 9 : n * 2;
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+export const globalPattern = (r: SensitiveRule) => new RegExp(r.pattern.source, r.pattern.flags.includes('g') ? r.pattern.flags : `${r.pattern.flags}g`);
+
+export const SENSITIVE_RULES: SensitiveRule[] = [
+  { category: 'auth', rule: 'otp_code', pattern: /\b(one[ -]?time\s*(passcode|password|code)|otp|verification\s*code|security\s*code|login\s*code|2fa|mfa|two[ -]?factor|authentication\s*code)\b/i },
+  { category: 'auth', rule: 'password_reset', pattern: /\b(password\s*reset|reset\s*your\s*password|sign[- ]?in\s*attempt|confirm\s*it['’]?s\s*you|approve\s+sign[- ]?in)\b/i },
+  { category: 'auth', rule: 'account_verification', pattern: /\b(magic\s*link|verify\s*(your\s*)?email|passkey|device\s*verification|account\s*verification)\b/i },
+  // German, French, Spanish, Portuguese, Italian, Dutch, Russian, Chinese, Japanese and Korean OTP phrasing.
+  { category: 'auth', rule: 'otp_code_intl', pattern: /(bestätigungscode|sicherheitscode|einmalpasswort|anmeldecode|verifizierungscode|code de (vérification|sécurité|connexion)|mot de passe à usage unique|código de (verificación|verificação|seguridad|segurança)|contraseña de un solo uso|codice di (verifica|sicurezza)|verificatiecode|beveiligingscode|код подтверждения|одноразовый пароль|验证码|驗證碼|認証コード|確認コード|ワンタイムパスワード|인증\s?번호|인증\s?코드)/iu },
+  { category: 'financial', rule: 'card_number', pattern: /\b\d(?:[ -]?\d){12,18}\b/, validate: luhn },
+  { category: 'financial', rule: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/ },
+  { category: 'financial', rule: 'account_number', pattern: /\b(account|acct|routing)\s*(number|no\.?|#)\s*:?\s*[\d-]{6,}/i },
+  { category: 'financial', rule: 'statement', pattern: /\b((bank|account|card|credit\s*card|brokerage)\s+statement|statement\s+(is\s+)?(now\s+)?(available|ready))\b/i },
+  { category: 'medical', rule: 'medical_record', pattern: /\b(diagnos(is|ed)|prescription|lab\s+results?|test\s+results?|medical\s+records?|patient\s+portal|health\s+record|HIPAA)\b/i },
+  { category: 'legal', rule: 'privileged', pattern: /\b(privileged\s*(and|&)\s*confidential|attorney[- ]client|legal\s+hold|subpoena|cease\s+and\s+desist|settlement\s+agreement)\b/i },
+  { category: 'personal_id', rule: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/ },
+  { category: 'personal_id', rule: 'passport_number', pattern: /\bpassport\s*(number|no\.?|#)\s*:?\s*[A-Z0-9]{6,9}\b/i },
+  { category: 'personal_id', rule: 'id_number', pattern: /\b(driver['’]?s?\s+licen[cs]e\s*(number|no\.?|#)|national\s+insurance\s+number|social\s+security\s+number|tax\s+id(entification)?\s+number)\b/i },
+];
+
+// Every rule that fires, in rule order.
+export function createClassifier(rules: SensitiveRule[] = SENSITIVE_RULES): Classifier {
+  return (text) => rules
+    .filter((r) => [...text.matchAll(globalPattern(r))].some((m) => !r.validate || r.validate(m[0])))
+    .map(({ category, rule }) => ({ category, rule }));
+}
+
+export const classifySensitive: Classifier = createClassifier();
+
+// The auth category follows `authHandlingMode` unless `categoryActions.auth` is set; the rest warn by default.
+export function categoryAction(category: SensitiveCategory, policy: PolicyConfig['email']): SensitiveAction {
+  return policy.categoryActions?.[category] ?? (category === 'auth' ? policy.authHandlingMode : 'warn');
+}
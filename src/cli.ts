@@ -0,0 +1,234 @@
+#!/usr/bin/env bun
+import fs from 'node:fs';
+import { CONFIG_PATH, checkConfigFile, loadConfig, writeConfig } from './config.ts';
+import { formatIssues } from './config-schema.ts';
+import { auditFile, auditHeadFile, configureAudit, listAuditArchives, verifyAuditChain } from './audit.ts';
+import { parseAuditRequest, readAuditRowsFor, runAuditQuery } from './audit-query.ts';
+import { maskSecrets, rotateApiKey, rotateSigningKey } from './keys.ts';
+import { createMcpHandler, serveMcpStdio } from './mcp.ts';
+import type { WrapperConfig } from './types.ts';
+
+const USAGE = `Usage: gshield <command>
+
+Commands:
+  config check             Validate the config file without starting the server
+  verify-audit [file...]   Check the audit hash chain (defaults to the archives plus the live log)
+  audit [--principal p] [--action a,b] [--since t] [--until t] [--path /v1/...]
+        [--recipient addr] [--reason r] [--limit n] [--offset n]
+        [--summary total|day|hour] [--format table|jsonl|json]
+                           Query the audit log
+  show-config              Print the config with secrets masked
+  rotate-signing-key       Generate a new token signing key; the old one stays valid for live tokens
+  rotate-api-key [--agent name] [--grace-hours 24]
+                           Replace the shared API key or an agent's key; the old key works
+                           until the grace period ends (0 revokes it at once)
+  mcp [--url http://127.0.0.1:8787]
+                           Serve MCP over stdio, forwarding every tool call to the running
+                           gshield server with the key in $GSHIELD_API_KEY
+  outbox [cancel <id>] [--url http://127.0.0.1:8787]
+                           List delayed sends, or cancel one before it goes, through the
+                           running server with the operator key in $GSHIELD_OPERATOR_KEY`;
+
+function flag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(`--${name}`);
+  return idx === -1 ? undefined : args[idx + 1];
+}
+
+// The audit tools work without a config; signatures and hashed-field lookups need its keys.
+function auditSettings() {
+  if (!fs.existsSync(CONFIG_PATH)) return {};
+  return loadConfig().audit ?? {};
+}
+
+function verifyAudit(args: string[]): number {
+  const files = args.length > 0 ? args : [...listAuditArchives(), auditFile()].filter((f) => fs.existsSync(f));
+  const missing = files.filter((f) => !fs.existsSync(f));
+  if (missing.length > 0) {
+    console.error(`No such file: ${missing.join(', ')}`);
+    return 2;
+  }
+  const hmacKey = auditSettings().hmacKey || undefined;
+  const result = verifyAuditChain(files, { hmacKey, headFile: args.length > 0 ? undefined : auditHeadFile() });
+  if (result.ok) {
+    console.log(`OK: ${result.entries} entries, seq ${result.firstSeq ?? '-'}..${result.lastSeq ?? '-'}${hmacKey ? ', signatures verified' : ''}`);
+    return 0;
+  }
+  const p = result.problem!;
+  console.error(`FAIL (${p.kind}) at ${p.file}:${p.line}${p.seq !== undefined ? ` seq ${p.seq}` : ''}: ${p.detail}`);
+  console.error(`${result.entries} entries verified before the failure.`);
+  return 1;
+}
+
+async function queryAudit(args: string[]): Promise<number> {
+  configureAudit(auditSettings());
+  const parsed = parseAuditRequest((name) => flag(args, name), 'table');
+  if (!parsed.ok) {
+    console.error(parsed.error);
+    return 2;
+  }
+  const result = runAuditQuery(parsed.req, await readAuditRowsFor(parsed.req));
+  process.stdout.write(parsed.req.format === 'json' ? JSON.stringify(result.json, null, 2) + '\n' : result.text);
+  if (result.nextOffset !== null) console.error(`${result.total} matching entries; next page: --offset ${result.nextOffset}`);
+  return 0;
+}
+
+function configCommand(args: string[]): number {
+  if (args[0] !== 'check') {
+    console.error(USAGE);
+    return 1;
+  }
+  let result: ReturnType<typeof checkConfigFile>;
+  try {
+    result = checkConfigFile();
+  } catch (err: any) {
+    console.error(err?.message || String(err));
+    return 1;
+  }
+  const { errors, warnings } = result;
+  if (errors.length > 0) console.error(`${errors.length} error(s) in ${CONFIG_PATH}:\n${formatIssues(errors)}`);
+  if (warnings.length > 0) console.error(`${warnings.length} warning(s):\n${formatIssues(warnings)}`);
+  if (errors.length === 0) console.log(`OK: ${CONFIG_PATH}${warnings.length ? ' (with warnings)' : ''}`);
+  return errors.length > 0 ? 1 : 0;
+}
+
+// Key commands edit the file in place, so they refuse to touch a config that does not validate.
+function loadForEdit(): WrapperConfig | null {
+  try {
+    const { cfg, errors } = checkConfigFile();
+    if (errors.length === 0) return cfg;
+    console.error(`${errors.length} error(s) in ${CONFIG_PATH}; fix them first (gshield config check):\n${formatIssues(errors)}`);
+  } catch (err: any) {
+    console.error(err?.message || String(err));
+  }
+  return null;
+}
+
+function showConfig(): number {
+  const cfg = loadForEdit();
+  if (!cfg) return 1;
+  console.log(JSON.stringify(maskSecrets(cfg), null, 2));
+  return 0;
+}
+
+function rotateSigningKeyCommand(): number {
+  const cfg = loadForEdit();
+  if (!cfg) return 1;
+  writeConfig(rotateSigningKey(cfg));
+  console.log(`Signing key rotated in ${CONFIG_PATH}. Tokens signed with the old key stay valid until they expire (${cfg.auth.tokenTtlSeconds}s).`);
+  return 0;
+}
+
+function rotateApiKeyCommand(args: string[]): number {
+  const graceHours = Number(flag(args, 'grace-hours') ?? '24');
+  if (!Number.isFinite(graceHours) || graceHours < 0) {
+    console.error('--grace-hours must be a number >= 0');
+    return 2;
+  }
+  const cfg = loadForEdit();
+  if (!cfg) return 1;
+  const agent = flag(args, 'agent');
+  let result: ReturnType<typeof rotateApiKey>;
+  try {
+    result = rotateApiKey(cfg, { agent, graceHours });
+  } catch (err: any) {
+    console.error(err?.message || String(err));
+    return 1;
+  }
+  writeConfig(result.cfg);
+  console.log(agent ? `New key for agent "${agent}" (shown once; only its hash is stored):` : 'New API key:');
+  console.log(result.key);
+  console.log(result.previousValidUntil ? `The old key keeps working until ${result.previousValidUntil}.` : 'The old key no longer works.');
+  return 0;
+}
+
+// `--url`, or the address the configured server listens on.
+function serverUrl(args: string[]): string | null {
+  const url = flag(args, 'url');
+  if (url) return url;
+  const cfg = loadForEdit();
+  if (!cfg) return null;
+  const host = ['0.0.0.0', '::'].includes(cfg.server.bind) ? '127.0.0.1' : cfg.server.bind;
+  return `http://${host.includes(':') ? `[${host}]` : host}:${cfg.server.port}`;
+}
+
+// Tool calls are forwarded to the running server, which stays the only process
+// applying policy and writing the audit chain.
+async function mcpCommand(args: string[]): Promise<number> {
+  const apiKey = process.env.GSHIELD_API_KEY;
+  if (!apiKey) {
+    console.error('Set GSHIELD_API_KEY to the agent key the MCP client should act as.');
+    return 2;
+  }
+  const baseUrl = serverUrl(args);
+  if (!baseUrl) return 1;
+  const version = JSON.parse(fs.readFileSync(new URL('../package.json', import.meta.url), 'utf8')).version;
+  const handle = createMcpHandler({
+    apiKey,
+    baseUrl,
+    version,
+    fetch: (req) => fetch(req).catch((err) => { throw new Error(`gshield is not reachable at ${baseUrl}: ${err?.message || err}`); }),
+  });
+  console.error(`gshield MCP server on stdio, forwarding to ${baseUrl}`);
+  await serveMcpStdio(handle);
+  return 0;
+}
+
+// Goes through the operator API for the same reason as `mcp`: the server writes the audit entries.
+async function outboxCommand(args: string[]): Promise<number> {
+  const operatorKey = process.env.GSHIELD_OPERATOR_KEY;
+  if (!operatorKey) {
+    console.error('Set GSHIELD_OPERATOR_KEY to the operator key.');
+    return 2;
+  }
+  const cancelId = args[0] === 'cancel' ? args[1] : undefined;
+  if (args[0] === 'cancel' ? !cancelId || cancelId.startsWith('--') : args[0] && !args[0].startsWith('--')) {
+    console.error(USAGE);
+    return 1;
+  }
+  const baseUrl = serverUrl(args);
+  if (!baseUrl) return 1;
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/admin/outbox${cancelId ? `/${encodeURIComponent(cancelId)}` : ''}`, { method: cancelId ? 'DELETE' : 'GET', headers: { 'x-operator-key': operatorKey } });
+  } catch (err: any) {
+    console.error(`gshield is not reachable at ${baseUrl}: ${err?.message || err}`);
+    return 1;
+  }
+  const data = await res.json() as any;
+  if (!res.ok) {
+    console.error(`${res.status} ${data.error}${data.status ? ` (${data.status})` : ''}`);
+    return 1;
+  }
+  if (cancelId) {
+    console.log(`Cancelled ${cancelId}.`);
+    return 0;
+  }
+  for (const item of data.items) console.log([item.id, item.status, item.sendAt, item.principal, item.kind, item.request.to.join(',')].join('\t'));
+  if (data.count === 0) console.log('Outbox is empty.');
+  return 0;
+}
+
+const [command, ...rest] = process.argv.slice(2);
+switch (command) {
+  case 'config':
+    process.exit(configCommand(rest));
+  case 'verify-audit':
+    process.exit(verifyAudit(rest));
+  case 'audit':
+    process.exit(await queryAudit(rest));
+  case 'show-config':
+    process.exit(showConfig());
+  case 'rotate-signing-key':
+    process.exit(rotateSigningKeyCommand());
+  case 'rotate-api-key':
+    process.exit(rotateApiKeyCommand(rest));
+  case 'mcp':
+    mcpCommand(rest).then((code) => process.exit(code));
+    break;
+  case 'outbox':
+    outboxCommand(rest).then((code) => process.exit(code));
+    break;
+  default:
+    console.error(USAGE);
+    process.exit(command ? 1 : 0);
+}
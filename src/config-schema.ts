@@ -0,0 +1,300 @@
+import { isValidAgentName } from './agents.ts';
+
+export type ConfigIssue = { path: string; message: string };
+
+type Base = { optional?: boolean };
+type Schema = Base & (
+  | { type: 'string'; enum?: readonly string[]; minLength?: number; pattern?: RegExp; hint?: string; regex?: boolean }
+  | { type: 'number'; integer?: boolean; min?: number; max?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; props: Record<string, Schema> }
+  | { type: 'record'; values: Schema }
+);
+
+const str = (extra: Partial<Extract<Schema, { type: 'string' }>> = {}): Schema => ({ type: 'string', ...extra });
+const oneOf = (...values: string[]): Schema => ({ type: 'string', enum: values });
+const int = (min = 0, max?: number): Schema => ({ type: 'number', integer: true, min, max });
+const bool = (): Schema => ({ type: 'boolean' });
+const arr = (items: Schema): Schema => ({ type: 'array', items });
+const obj = (props: Record<string, Schema>): Schema => ({ type: 'object', props });
+const rec = (values: Schema): Schema => ({ type: 'record', values });
+const opt = (s: Schema): Schema => ({ ...s, optional: true });
+const partial = (s: Schema): Schema => s.type === 'object'
+  ? { type: 'object', props: Object.fromEntries(Object.entries(s.props).map(([k, v]) => [k, opt(v)])) }
+  : s;
+
+const SENSITIVE_CATEGORIES = ['auth', 'financial', 'medical', 'legal', 'personal_id'];
+const SENSITIVE_ACTIONS = ['block', 'warn', 'redact', 'allow'];
+const REDACTION_FIELDS = ['subject', 'snippet', 'body', 'from', 'to'];
+const SCOPES = ['email:read', 'email:reply', 'email:send', 'email:draft', 'email:modify', 'calendar:read', 'calendar:write'];
+const KEY_HASH = { pattern: /^sha256:[a-f0-9]{64}$/, hint: 'sha256:<64 hex chars>' };
+const TIMESTAMP = { pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/, hint: 'an ISO timestamp such as 2026-01-31T12:00:00Z' };
+
+const fieldRedaction = obj({
+  codes: opt(bool()),
+  urls: opt(oneOf('mask', 'domain')),
+  emails: opt(bool()),
+  patterns: opt(arr(str({ minLength: 1, regex: true }))),
+});
+
+const emailPolicy = obj({
+  maxRecentDays: int(1),
+  authHandlingMode: oneOf('block', 'warn', 'redact'),
+  threadContextMode: oneOf('full_thread', 'latest_only'),
+  senderDenylist: opt(arr(str({ minLength: 1 }))),
+  senderDomainDenylist: opt(arr(str({ minLength: 1 }))),
+  senderAllowlist: opt(arr(str({ minLength: 1 }))),
+  senderDomainAllowlist: opt(arr(str({ minLength: 1 }))),
+  labelInclude: opt(arr(str({ minLength: 1 }))),
+  labelExclude: opt(arr(str({ minLength: 1 }))),
+  categoryActions: opt(obj(Object.fromEntries(SENSITIVE_CATEGORIES.map((c) => [c, opt(oneOf(...SENSITIVE_ACTIONS))])))),
+  redaction: opt(obj(Object.fromEntries(REDACTION_FIELDS.map((f) => [f, opt(fieldRedaction)])))),
+  injectionHandlingMode: opt(oneOf('block', 'warn')),
+  injectionBlockThreshold: opt({ type: 'number', min: 0, max: 1 }),
+  untrustedEnvelope: opt(bool()),
+  maxBodyChars: opt(int(1)),
+  attachments: opt(obj({
+    mimeTypeAllowlist: arr(str({ pattern: /^[a-z0-9.+-]+\/([a-z0-9.+-]+|\*)$/i, hint: 'a MIME type such as application/pdf or image/*' })),
+    maxBytes: int(1),
+  })),
+});
+
+const calendarPolicy = obj({
+  defaultThisWeek: bool(),
+  maxPastDays: int(0),
+  maxFutureDays: int(0),
+  allowAttendeeEmails: bool(),
+  allowLocation: bool(),
+  allowMeetingUrls: bool(),
+});
+
+const calendarWritePolicy = obj({
+  enabled: bool(),
+  allowedCalendarIds: arr(str({ minLength: 1 })),
+  allowAttendees: bool(),
+  sendUpdates: oneOf('none', 'all', 'externalOnly'),
+  maxEventsPerHour: int(0),
+  maxEventsPerDay: int(0),
+});
+
+const emailModifyPolicy = obj({
+  enabled: bool(),
+  labelAllowlist: arr(str({ minLength: 1 })),
+  maxMutationsPerHour: int(0),
+  maxMutationsPerDay: int(0),
+});
+
+const outboundPolicy = obj({
+  replyOnlyDefault: bool(),
+  allowAllRecipients: bool(),
+  allowReplyToAnyone: bool(),
+  recipientAllowlist: arr(str({ minLength: 1 })),
+  domainAllowlist: arr(str({ minLength: 1 })),
+  maxSendsPerHour: int(0),
+  maxSendsPerDay: int(0),
+  mode: opt(oneOf('direct', 'approval', 'drafts_only')),
+  approvalTtlHours: opt(int(1)),
+  maxDraftsPerHour: opt(int(0)),
+  maxDraftsPerDay: opt(int(0)),
+  maxRecipients: opt(int(1)),
+  allowBcc: opt(bool()),
+  quotaUnit: opt(oneOf('message', 'recipient')),
+  sendDelaySeconds: opt(int(0, 86_400)),
+  dlp: opt(obj({
+    action: oneOf('block', 'approval', 'off'),
+    customPatterns: opt(arr(str({ minLength: 1, regex: true }))),
+  })),
+});
+
+export const CONFIG_SCHEMA: Schema = obj({
+  server: obj({
+    port: int(0, 65535),
+    bind: str({ minLength: 1 }),
+    maxPayloadBytes: int(1),
+    rateLimitPerMinute: int(1),
+  }),
+  auth: obj({
+    apiKey: str(),
+    previousApiKey: opt(str()),
+    previousApiKeyExpiresAt: opt(str(TIMESTAMP)),
+    tokenSigningKey: str({ minLength: 1 }),
+    previousTokenSigningKey: opt(str()),
+    tokenTtlSeconds: int(1),
+    operatorKeyHash: opt(str(KEY_HASH)),
+  }),
+  gmail: obj({ account: str({ minLength: 1 }) }),
+  calendar: obj({ ids: arr(str({ minLength: 1 })) }),
+  policy: obj({
+    email: emailPolicy,
+    calendar: calendarPolicy,
+    calendarWrite: calendarWritePolicy,
+    emailModify: opt(emailModifyPolicy),
+    outbound: outboundPolicy,
+  }),
+  agents: opt(arr(obj({
+    name: str({ pattern: /^[a-z0-9][a-z0-9_-]{0,63}$/i, hint: 'letters, digits, - and _' }),
+    keyHash: str(KEY_HASH),
+    previousKeyHash: opt(str(KEY_HASH)),
+    previousKeyExpiresAt: opt(str(TIMESTAMP)),
+    scopes: opt(arr(oneOf(...SCOPES))),
+    calendarIds: opt(arr(str({ minLength: 1 }))),
+    policy: opt(obj({
+      email: opt(partial(emailPolicy)),
+      calendar: opt(partial(calendarPolicy)),
+      calendarWrite: opt(partial(calendarWritePolicy)),
+      emailModify: opt(partial(emailModifyPolicy)),
+      outbound: opt(partial(outboundPolicy)),
+    })),
+  }))),
+  audit: opt(obj({
+    hmacKey: opt(str()),
+    hashKey: opt(str()),
+    rotateMaxBytes: opt(int(0)),
+    rotateDaily: opt(bool()),
+    retentionDays: opt(int(0)),
+    privacy: opt(rec(oneOf('clear', 'hash', 'omit'))),
+  })),
+});
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    let prevDiag = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prevDiag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prevDiag = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(input: string, options: readonly string[]): string {
+  let best: string | null = null;
+  let bestScore = Infinity;
+  for (const o of options) {
+    const d = editDistance(input.toLowerCase(), o.toLowerCase());
+    if (d < bestScore) { best = o; bestScore = d; }
+  }
+  return best && bestScore <= Math.max(2, Math.floor(best.length / 3)) ? ` (did you mean "${best}"?)` : '';
+}
+
+function describe(v: unknown): string {
+  if (v === null) return 'null';
+  if (Array.isArray(v)) return 'array';
+  return typeof v === 'string' ? `string ${JSON.stringify(v)}` : typeof v;
+}
+
+function check(value: unknown, schema: Schema, at: string, out: ConfigIssue[]) {
+  const path = at || '(root)';
+  if (value === undefined) {
+    if (!schema.optional) out.push({ path, message: `is required (${schema.type})` });
+    return;
+  }
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') { out.push({ path, message: `must be a string, got ${describe(value)}` }); return; }
+      if (schema.enum && !schema.enum.includes(value)) out.push({ path, message: `must be one of ${schema.enum.map((e) => `"${e}"`).join(', ')}, got "${value}"${suggest(value, schema.enum)}` });
+      if (schema.minLength && value.length < schema.minLength) out.push({ path, message: 'must not be empty' });
+      if (schema.pattern && !schema.pattern.test(value)) out.push({ path, message: `has invalid format, expected ${schema.hint}` });
+      if (schema.regex) {
+        try { new RegExp(value); } catch (err: any) { out.push({ path, message: `is not a valid regular expression: ${err?.message || err}` }); }
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) { out.push({ path, message: `must be a number, got ${describe(value)}` }); return; }
+      if (schema.integer && !Number.isInteger(value)) out.push({ path, message: `must be a whole number, got ${value}` });
+      if (schema.min !== undefined && value < schema.min) out.push({ path, message: `must be >= ${schema.min}, got ${value}` });
+      if (schema.max !== undefined && value > schema.max) out.push({ path, message: `must be <= ${schema.max}, got ${value}` });
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') out.push({ path, message: `must be true or false, got ${describe(value)}` });
+      return;
+    case 'array':
+      if (!Array.isArray(value)) { out.push({ path, message: `must be an array, got ${describe(value)}` }); return; }
+      value.forEach((item, i) => check(item, schema.items, `${at}[${i}]`, out));
+      return;
+    case 'record':
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) { out.push({ path, message: `must be an object, got ${describe(value)}` }); return; }
+      const entries = value as Record<string, unknown>;
+      const join = (k: string) => (at ? `${at}.${k}` : k);
+      if (schema.type === 'record') {
+        for (const [k, v] of Object.entries(entries)) check(v, schema.values, join(k), out);
+        return;
+      }
+      const known = Object.keys(schema.props);
+      for (const k of Object.keys(entries)) {
+        if (!known.includes(k)) out.push({ path: join(k), message: `is not a known setting${suggest(k, known)}` });
+      }
+      for (const k of known) check(entries[k], schema.props[k], join(k), out);
+      return;
+    }
+  }
+}
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', 'localhost']);
+const MIN_SECRET_LENGTH = 32;
+
+// Settings that load fine but weaken the deployment.
+function warningsFor(cfg: any): ConfigIssue[] {
+  const out: ConfigIssue[] = [];
+  if (typeof cfg?.server?.bind === 'string' && !LOOPBACK.has(cfg.server.bind)) {
+    out.push({ path: 'server.bind', message: `"${cfg.server.bind}" is not loopback; gshield will be reachable from other hosts` });
+  }
+  if (cfg?.policy?.outbound?.allowAllRecipients === true) {
+    out.push({ path: 'policy.outbound.allowAllRecipients', message: 'is true; new sends can go to any address' });
+  }
+  (Array.isArray(cfg?.agents) ? cfg.agents : []).forEach((a: any, i: number) => {
+    if (a?.policy?.outbound?.allowAllRecipients === true) out.push({ path: `agents[${i}].policy.outbound.allowAllRecipients`, message: `is true; agent "${a.name}" can send to any address` });
+  });
+  for (const key of ['tokenSigningKey', 'previousTokenSigningKey'] as const) {
+    const v = cfg?.auth?.[key];
+    if (typeof v === 'string' && v.length > 0 && v.length < MIN_SECRET_LENGTH) out.push({ path: `auth.${key}`, message: `is only ${v.length} characters; use at least ${MIN_SECRET_LENGTH} (npm run setup generates 64)` });
+  }
+  for (const key of ['hmacKey', 'hashKey'] as const) {
+    const v = cfg?.audit?.[key];
+    if (typeof v === 'string' && v.length > 0 && v.length < MIN_SECRET_LENGTH) out.push({ path: `audit.${key}`, message: `is only ${v.length} characters; use at least ${MIN_SECRET_LENGTH}` });
+  }
+  if (typeof cfg?.auth?.apiKey === 'string' && cfg.auth.apiKey.length > 0 && cfg.auth.apiKey.length < 24) {
+    out.push({ path: 'auth.apiKey', message: `is only ${cfg.auth.apiKey.length} characters; use at least 24` });
+  }
+  return out;
+}
+
+// Cross-field rules the per-field schema cannot express.
+function crossFieldErrors(cfg: any): ConfigIssue[] {
+  const out: ConfigIssue[] = [];
+  const agents = Array.isArray(cfg?.agents) ? cfg.agents : [];
+  if (cfg?.auth?.apiKey === '' && agents.length === 0) out.push({ path: 'auth.apiKey', message: 'is empty and no agents are registered; nothing could authenticate' });
+  if (cfg?.audit?.hmacKey && cfg.audit.hmacKey === cfg?.auth?.tokenSigningKey) out.push({ path: 'audit.hmacKey', message: 'must differ from auth.tokenSigningKey' });
+  // Without a key there is nothing to hash with, and the field would be dropped instead.
+  const privacy = cfg?.audit?.privacy;
+  if (privacy && typeof privacy === 'object' && !cfg.audit.hashKey && !cfg.audit.hmacKey) {
+    for (const [field, mode] of Object.entries(privacy)) if (mode === 'hash') out.push({ path: `audit.privacy.${field}`, message: 'is "hash" but neither audit.hashKey nor audit.hmacKey is set' });
+  }
+  const seen = new Set<string>();
+  agents.forEach((a: any, i: number) => {
+    if (!isValidAgentName(a?.name)) return;
+    if (seen.has(a.name)) out.push({ path: `agents[${i}].name`, message: `duplicates agent "${a.name}"` });
+    seen.add(a.name);
+    const ids: unknown = cfg?.calendar?.ids;
+    for (const id of Array.isArray(a.calendarIds) ? a.calendarIds : []) {
+      if (Array.isArray(ids) && !ids.includes(id)) out.push({ path: `agents[${i}].calendarIds`, message: `"${id}" is not in calendar.ids` });
+    }
+  });
+  return out;
+}
+
+export function validateConfig(cfg: unknown): { errors: ConfigIssue[]; warnings: ConfigIssue[] } {
+  const errors: ConfigIssue[] = [];
+  check(cfg, CONFIG_SCHEMA, '', errors);
+  errors.push(...crossFieldErrors(cfg));
+  return { errors, warnings: warningsFor(cfg) };
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues.map((i) => `  - ${i.path}: ${i.message}`).join('\n');
+}
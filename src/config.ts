@@ -1,31 +1,30 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import crypto from 'node:crypto';
+import { formatIssues, validateConfig, type ConfigIssue } from './config-schema.ts';
 import type { WrapperConfig } from './types.ts';
 
 export const ROOT = process.cwd();
 export const CONFIG_PATH = process.env.SECURE_WRAPPER_CONFIG || path.join(ROOT, 'config', 'wrapper-config.json');
 
-export function loadConfig(): WrapperConfig {
-  if (!fs.existsSync(CONFIG_PATH)) {
-    throw new Error(`Missing config at ${CONFIG_PATH}. Run setup.`);
-  }
-  const rawAny = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8')) as any;
-
-  // Backward-compatible migration for older configs.
+// Backward-compatible migration for older configs. Legacy keys are consumed
+// here so that validation only ever sees the current shape.
+function migrate(rawAny: any): unknown {
+  if (!rawAny || typeof rawAny !== 'object' || Array.isArray(rawAny)) return rawAny;
   const calendarIds = Array.isArray(rawAny?.calendar?.ids)
     ? rawAny.calendar.ids
     : (rawAny?.calendar?.id ? [rawAny.calendar.id] : ['primary']);
+  const { returnSensitiveAuth, ...email } = rawAny?.policy?.email ?? {};
 
-  const cfg: WrapperConfig = {
+  return {
     ...rawAny,
     calendar: { ids: calendarIds },
     policy: {
       ...rawAny.policy,
       email: {
-        ...rawAny?.policy?.email,
-        authHandlingMode: rawAny?.policy?.email?.authHandlingMode || (rawAny?.policy?.email?.returnSensitiveAuth ? 'warn' : 'block'),
-        threadContextMode: rawAny?.policy?.email?.threadContextMode || 'full_thread'
+        ...email,
+        authHandlingMode: email.authHandlingMode || (returnSensitiveAuth ? 'warn' : 'block'),
+        threadContextMode: email.threadContextMode || 'full_thread'
       },
       calendar: {
         ...rawAny?.policy?.calendar,
@@ -40,14 +39,38 @@ export function loadConfig(): WrapperConfig {
       }
     }
   };
+}
+
+export type ConfigCheck = { cfg: WrapperConfig; errors: ConfigIssue[]; warnings: ConfigIssue[] };
 
-  if (!cfg.auth?.apiKey || !cfg.auth?.tokenSigningKey) throw new Error('auth config incomplete');
+// Reads and validates without throwing on schema problems, for `gshield config check`.
+export function checkConfigFile(file = CONFIG_PATH): ConfigCheck {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing config at ${file}. Run setup.`);
+  }
+  let rawAny: unknown;
+  try {
+    rawAny = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    return { cfg: {} as WrapperConfig, errors: [{ path: '(file)', message: `is not valid JSON: ${err?.message || err}` }], warnings: [] };
+  }
+  const cfg = migrate(rawAny);
+  return { cfg: cfg as WrapperConfig, ...validateConfig(cfg) };
+}
+
+export function loadConfig(): WrapperConfig {
+  const { cfg, errors, warnings } = checkConfigFile();
+  if (errors.length > 0) throw new Error(`Invalid config at ${CONFIG_PATH}:\n${formatIssues(errors)}`);
+  if (warnings.length > 0) console.warn(`Config warnings:\n${formatIssues(warnings)}`);
   return cfg;
 }
 
-export function writeConfig(config: WrapperConfig): void {
-  fs.mkdirSync(path.dirname(CONFIG_PATH), { recursive: true, mode: 0o700 });
-  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2), { mode: 0o600 });
+// Written to a temp file and renamed, so a running server never reloads a half-written config.
+export function writeConfig(config: WrapperConfig, file = CONFIG_PATH): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(config, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
 }
 
 export const randomKey = (len = 32) => crypto.randomBytes(len).toString('hex');
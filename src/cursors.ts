@@ -0,0 +1,51 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Delta cursors for polling readers. A cursor names the set of message ids a
+// principal has already been given; it filters results and never widens the
+// read window. State lives in one file per principal, so a cursor issued to one
+// principal means nothing to another.
+
+type CursorState = { id: string; issuedAt: string; seen: Record<string, number> };
+
+// Earlier cursors stay valid so a client that lost a response can retry with the previous one.
+const MAX_CURSORS = 10;
+
+function cursorDir() {
+  return process.env.SECURE_WRAPPER_CURSOR_DIR || path.join(process.cwd(), 'logs', 'cursors');
+}
+
+function fileFor(principal: string) {
+  return path.join(cursorDir(), `${encodeURIComponent(principal)}.json`);
+}
+
+function load(principal: string): CursorState[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(fileFor(principal), 'utf8'));
+    return Array.isArray(parsed?.cursors) ? parsed.cursors : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(principal: string, cursors: CursorState[]) {
+  const file = fileFor(principal);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ cursors }));
+  fs.renameSync(tmp, file);
+}
+
+// Message id to arrival time (epoch ms) for everything the cursor has seen, or null if the principal never got this cursor.
+export function readCursor(principal: string, token: string): Record<string, number> | null {
+  return load(principal).find((c) => c.id === token)?.seen ?? null;
+}
+
+// Ids older than `windowStart` are dropped: they can never be returned again.
+export function issueCursor(principal: string, seen: Record<string, number>, windowStart: number, now = new Date()): string {
+  const kept = Object.fromEntries(Object.entries(seen).filter(([, at]) => at >= windowStart));
+  const id = crypto.randomBytes(16).toString('base64url');
+  save(principal, [...load(principal), { id, issuedAt: now.toISOString(), seen: kept }].slice(-MAX_CURSORS));
+  return id;
+}
@@ -0,0 +1,77 @@
+import crypto from 'node:crypto';
+import { SENSITIVE_RULES, globalPattern } from './classifier.ts';
+import { codeSpans, findCodes } from './redaction.ts';
+
+// Outbound data-loss prevention. Subjects and bodies are scanned before any
+// provider call; a match is reported by rule and field, never by what matched.
+
+export type DlpField = 'subject' | 'body';
+
+export type DlpMatch = { rule: string; field: DlpField };
+
+type DlpRule = { rule: string; pattern: RegExp; validate?: (match: string) => boolean };
+
+const CREDENTIAL_RULES: DlpRule[] = [
+  { rule: 'private_key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----/ },
+  { rule: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/ },
+  { rule: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { rule: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}/ },
+  { rule: 'stripe_key', pattern: /\b[rs]k_live_[0-9A-Za-z]{16,}/ },
+  { rule: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/ },
+  { rule: 'secret_assignment', pattern: /\b(?:api[_-]?key|secret(?:[_-]?key)?|access[_-]?token|auth[_-]?token|password|passwd)\s*[:=]\s*["']?[^\s"']{8,}/i },
+];
+
+// Card numbers (Luhn-checked), SSNs and passport numbers use the inbound classifier's rules.
+const SHARED_RULES: DlpRule[] = SENSITIVE_RULES.filter((r) => ['card_number', 'ssn', 'passport_number'].includes(r.rule));
+
+const NATIONAL_ID_RULES: DlpRule[] = [
+  { rule: 'uk_nino', pattern: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/ },
+];
+
+export const DLP_RULES: DlpRule[] = [...CREDENTIAL_RULES, ...SHARED_RULES, ...NATIONAL_ID_RULES];
+
+// Codes from auth mail the agent was not shown (blocked or redacted), so it
+// cannot pass one on after reading it some other way. Held in memory only, as
+// hashes under a per-process key, for a day.
+const CODE_TTL_MS = 24 * 3_600_000;
+const codeKey = crypto.randomBytes(32);
+const withheldCodes = new Map<string, number>();
+const codeHash = (code: string) => crypto.createHmac('sha256', codeKey).update(code).digest('hex');
+
+// Only codes this close to the auth wording that fired are taken, so footers,
+// dates and addresses elsewhere in the mail are left alone. Years never count.
+const AUTH_RULES = SENSITIVE_RULES.filter((r) => r.category === 'auth');
+const CODE_NEAR_CHARS = 40;
+const isYear = (code: string) => /^(19|20)\d\d$/.test(code);
+
+export function rememberWithheldCodes(text: string, now = Date.now()): void {
+  for (const [hash, expires] of withheldCodes) if (expires <= now) withheldCodes.delete(hash);
+  const spans = codeSpans(text).filter((s) => !isYear(s.code));
+  for (const r of AUTH_RULES) {
+    for (const m of text.matchAll(globalPattern(r))) {
+      const from = m.index! - CODE_NEAR_CHARS;
+      const to = m.index! + m[0].length + CODE_NEAR_CHARS;
+      for (const s of spans) if (s.end > from && s.start < to) withheldCodes.set(codeHash(s.code), now + CODE_TTL_MS);
+    }
+  }
+}
+
+// Grouped digits are joined on both sides, so `123 456` and `123456` are the same code.
+function containsWithheldCode(text: string, now: number): boolean {
+  return findCodes(text).some((code) => (withheldCodes.get(codeHash(code)) ?? 0) > now);
+}
+
+const matches = (r: DlpRule, text: string) => [...text.matchAll(new RegExp(r.pattern.source, `${r.pattern.flags}g`))].some((m) => !r.validate || r.validate(m[0]));
+
+// Custom patterns are matched case-insensitively and reported as `custom_pattern_<n>`, counting from 1.
+export function scanOutbound(message: Record<DlpField, string>, customPatterns: string[] = [], now = Date.now()): DlpMatch[] {
+  const rules: DlpRule[] = [...DLP_RULES, ...customPatterns.map((p, i) => ({ rule: `custom_pattern_${i + 1}`, pattern: new RegExp(p, 'i') }))];
+  const found: DlpMatch[] = [];
+  for (const field of ['subject', 'body'] as const) {
+    const text = message[field] || '';
+    if (containsWithheldCode(text, now)) found.push({ rule: 'withheld_auth_code', field });
+    for (const r of rules) if (matches(r, text)) found.push({ rule: r.rule, field });
+  }
+  return found;
+}
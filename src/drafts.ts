@@ -0,0 +1,38 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Ids of the Gmail drafts each principal created through gshield. Only these
+// can be edited, so drafts a person wrote in Gmail, or another agent's, stay
+// out of reach. One file per principal, like the cursor store.
+
+// Oldest ids drop off first; a draft this far back has long been sent or discarded.
+const MAX_DRAFTS = 1000;
+
+function draftDir() {
+  return process.env.SECURE_WRAPPER_DRAFT_DIR || path.join(process.cwd(), 'logs', 'drafts');
+}
+
+function fileFor(principal: string) {
+  return path.join(draftDir(), `${encodeURIComponent(principal)}.json`);
+}
+
+function load(principal: string): string[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(fileFor(principal), 'utf8'));
+    return Array.isArray(parsed?.ids) ? parsed.ids : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordDraft(principal: string, id: string): void {
+  const file = fileFor(principal);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ ids: [...load(principal).filter((d) => d !== id), id].slice(-MAX_DRAFTS) }));
+  fs.renameSync(tmp, file);
+}
+
+export function ownsDraft(principal: string, id: string): boolean {
+  return load(principal).includes(id);
+}
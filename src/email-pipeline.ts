@@ -0,0 +1,231 @@
+import { SENSITIVE_RULES, categoryAction, createClassifier } from './classifier.ts';
+import type { SensitiveMatch, SensitiveRule } from './classifier.ts';
+import { rememberWithheldCodes } from './dlp.ts';
+import { capText, decodeEntities, normalizeBody } from './html.ts';
+import { assessInjection, wrapUntrusted } from './injection.ts';
+import type { InjectionReason } from './injection.ts';
+import { headerAddresses } from './policy.ts';
+import { redactCategory, redactField } from './redaction.ts';
+import type { EmailAttachment, EmailItem, PolicyConfig, RedactionField, SensitiveAction, SensitiveCategory } from './types.ts';
+
+// The single path every email takes before an agent sees it. Each read route
+// goes through here so sender and label scope, HTML normalisation, sensitive
+// content handling, injection screening and context stripping cannot differ
+// between routes.
+
+export type ContextMode = 'full_thread' | 'latest_only';
+
+export type EmailView = {
+  id: string;
+  threadId: string;
+  from: string;
+  to: string;
+  subject: string;
+  snippet: string;
+  body: string;
+  truncated: boolean;
+  attachments: EmailAttachment[];
+  internalDate: string | null;
+  sensitivity: 'sensitive' | 'normal';
+  categories: SensitiveCategory[];
+  injectionRisk: number;
+  injectionReasons: InjectionReason[];
+};
+
+export type EmailWarning =
+  | { id: string; threadId: string; reason: 'sensitive_content_detected'; category: SensitiveCategory; rule: string }
+  | { id: string; threadId: string; reason: 'prompt_injection_suspected'; injectionRisk: number; injectionReasons: InjectionReason[] };
+
+// What fired on which message and what was done about it, for the audit log.
+export type Detection = SensitiveMatch & { id: string; action: SensitiveAction };
+
+export type FilteredEmails = { items: EmailView[]; blockedCount: number; warnings?: EmailWarning[]; detections?: Detection[] };
+
+export type WithheldReason = 'sender_denied' | 'sender_not_allowed' | 'label_excluded' | 'label_not_included';
+
+export type InjectionFlag = { id: string; injectionRisk: number; injectionReasons: InjectionReason[] };
+
+export type ProcessedEmails = FilteredEmails & {
+  withheldCount: number;
+  withheldReasons: Partial<Record<WithheldReason, number>>;
+  injectionBlockedCount: number;
+  injectionFlags?: InjectionFlag[];
+};
+
+export type ProcessOptions = { envelopeNonce?: string; rules?: SensitiveRule[] };
+
+export const DEFAULT_INJECTION_THRESHOLD = 0.7;
+
+export const DEFAULT_MAX_BODY_CHARS = 20_000;
+
+const lower = (list: string[] | undefined) => (list || []).map((x) => x.trim().toLowerCase()).filter(Boolean);
+
+// A domain entry also covers its subdomains, so `bank.com` withholds `alerts.bank.com`.
+function domainMatches(domain: string, entries: string[]): boolean {
+  return entries.some((d) => domain === d.replace(/^@/, '') || domain.endsWith(`.${d.replace(/^@/, '')}`));
+}
+
+// Why policy withholds a message regardless of its content, or null if it may be read.
+// Denylists win over allowlists; a message without label data fails a labelInclude rule.
+export function readScopeReason(m: EmailItem, policy: PolicyConfig['email']): WithheldReason | null {
+  const sender = headerAddresses(m.from)[0] || '';
+  const domain = sender.split('@')[1] || '';
+  if (lower(policy.senderDenylist).includes(sender) || domainMatches(domain, lower(policy.senderDomainDenylist))) return 'sender_denied';
+  const labels = lower(m.labels);
+  if (lower(policy.labelExclude).some((l) => labels.includes(l))) return 'label_excluded';
+  const allowSenders = lower(policy.senderAllowlist);
+  const allowDomains = lower(policy.senderDomainAllowlist);
+  if ((allowSenders.length > 0 || allowDomains.length > 0) && !allowSenders.includes(sender) && !domainMatches(domain, allowDomains)) return 'sender_not_allowed';
+  const include = lower(policy.labelInclude);
+  if (include.length > 0 && !include.some((l) => labels.includes(l))) return 'label_not_included';
+  return null;
+}
+
+export function stripQuotedReplyText(text = ''): string {
+  if (!text) return '';
+  const lines = text.split(/\r?\n/);
+  const cutPatterns = [
+    /^\s*>+/, // quoted lines
+    /^\s*On\s.+wrote:\s*$/i,
+    /^\s*From:\s.+$/i,
+    /^\s*Sent:\s.+$/i,
+    /^\s*Subject:\s.+$/i,
+    /^\s*To:\s.+$/i,
+    /^\s*-{2,}\s*Original Message\s*-{2,}\s*$/i,
+    /^\s*Begin forwarded message:\s*$/i
+  ];
+  const out: string[] = [];
+  for (const line of lines) {
+    if (cutPatterns.some((p) => p.test(line))) break;
+    out.push(line);
+  }
+  return out.join('\n').trim();
+}
+
+export function resolveContextMode(requested: string | null | undefined, policy: PolicyConfig['email']): ContextMode {
+  return requested === 'latest_only' || requested === 'full_thread' ? requested : policy.threadContextMode;
+}
+
+// `?envelope=true|false` overrides `untrustedEnvelope`; anything else falls back to the policy.
+export function resolveEnvelope(requested: string | null | undefined, policy: PolicyConfig['email']): boolean {
+  return requested === 'true' || requested === 'false' ? requested === 'true' : !!policy.untrustedEnvelope;
+}
+
+// HTML is converted to text first, then quoted history is stripped. Classification
+// and injection scoring see the whole normalised body; the cap applies only to what is returned.
+export function toEmailView(m: EmailItem, contextMode: ContextMode, policy: PolicyConfig['email'], rules: SensitiveRule[] = SENSITIVE_RULES): { view: EmailView; matches: SensitiveMatch[] } {
+  const subject = m.subject || '';
+  const normalized = normalizeBody(m.body || '');
+  const rawSnippet = decodeEntities(m.snippet || '');
+  const snippet = contextMode === 'latest_only' ? stripQuotedReplyText(rawSnippet) : rawSnippet;
+  const fullBody = contextMode === 'latest_only' ? stripQuotedReplyText(normalized.text) : normalized.text;
+  const matches = createClassifier(rules)(`${subject}\n${snippet}\n${fullBody}`).filter((x) => categoryAction(x.category, policy) !== 'allow');
+  const categories = [...new Set(matches.map((x) => x.category))];
+  const injection = assessInjection(`${subject}\n${snippet}\n${fullBody}`, normalized.hiddenRemoved ? ['hidden_text'] : []);
+  const { text: body, truncated } = capText(fullBody, policy.maxBodyChars ?? DEFAULT_MAX_BODY_CHARS);
+  return {
+    view: {
+      id: m.id,
+      threadId: m.threadId,
+      from: m.from || '',
+      to: m.to || '',
+      subject,
+      snippet,
+      body,
+      truncated,
+      attachments: (m.attachments || []).map(({ id, filename, mimeType, size }) => ({ id, filename, mimeType, size })),
+      internalDate: m.internalDate || null,
+      sensitivity: categories.length > 0 ? 'sensitive' : 'normal',
+      categories,
+      injectionRisk: injection.score,
+      injectionReasons: injection.reasons
+    },
+    matches
+  };
+}
+
+// Applies each category's action: any `block` drops the message, `redact` masks
+// the matched text, `warn` keeps it and lists one warning per rule that fired.
+export function applySensitiveActions(classified: Array<{ view: EmailView; matches: SensitiveMatch[] }>, policy: PolicyConfig['email'], rules: SensitiveRule[] = SENSITIVE_RULES): FilteredEmails {
+  const items: EmailView[] = [];
+  const warnings: EmailWarning[] = [];
+  const detections: Detection[] = [];
+  let blockedCount = 0;
+  for (const { view, matches } of classified) {
+    const acted = matches.map((x) => ({ ...x, id: view.id, action: categoryAction(x.category, policy) }));
+    detections.push(...acted);
+    // Codes from auth mail the agent does not get to see are remembered for the outbound scan.
+    if (acted.some((x) => x.category === 'auth' && (x.action === 'block' || x.action === 'redact'))) rememberWithheldCodes(`${view.subject}\n${view.snippet}\n${view.body}`);
+    if (acted.some((x) => x.action === 'block')) {
+      blockedCount++;
+      continue;
+    }
+    let out = view;
+    for (const category of new Set(acted.filter((x) => x.action === 'redact').map((x) => x.category))) {
+      out = { ...out, subject: redactCategory(out.subject, category, rules), snippet: redactCategory(out.snippet, category, rules), body: redactCategory(out.body, category, rules) };
+    }
+    warnings.push(...acted.filter((x) => x.action === 'warn').map((x) => ({ id: view.id, threadId: view.threadId, reason: 'sensitive_content_detected' as const, category: x.category, rule: x.rule })));
+    items.push(out);
+  }
+  return { items, blockedCount, warnings: warnings.length > 0 ? warnings : undefined, detections: detections.length > 0 ? detections : undefined };
+}
+
+const REDACTION_FIELDS: RedactionField[] = ['subject', 'snippet', 'body', 'from', 'to'];
+
+// Configured per-field masks. Runs after classification, which always sees the unmasked text.
+export function applyFieldRedaction(view: EmailView, redaction: PolicyConfig['email']['redaction']): EmailView {
+  if (!redaction) return view;
+  const out = { ...view };
+  for (const field of REDACTION_FIELDS) {
+    const rules = redaction[field];
+    if (rules) out[field] = redactField(out[field], rules);
+  }
+  return out;
+}
+
+// Messages at or above the threshold are dropped under `block` and listed as warnings under `warn`.
+export function applyInjectionPolicy(views: EmailView[], policy: PolicyConfig['email']): { items: EmailView[]; blockedCount: number; warnings: EmailWarning[] } {
+  const threshold = policy.injectionBlockThreshold ?? DEFAULT_INJECTION_THRESHOLD;
+  const risky = (v: EmailView) => v.injectionRisk > 0 && v.injectionRisk >= threshold;
+  if (policy.injectionHandlingMode === 'block') {
+    const items = views.filter((v) => !risky(v));
+    return { items, blockedCount: views.length - items.length, warnings: [] };
+  }
+  return {
+    items: views,
+    blockedCount: 0,
+    warnings: views.filter(risky).map((v) => ({ id: v.id, threadId: v.threadId, reason: 'prompt_injection_suspected', injectionRisk: v.injectionRisk, injectionReasons: v.injectionReasons })),
+  };
+}
+
+// Subject, snippet and body are the attacker-controlled text; headers and metadata stay outside the envelope.
+export function envelopeView(view: EmailView, nonce: string): EmailView {
+  return { ...view, subject: wrapUntrusted(view.subject, nonce), snippet: wrapUntrusted(view.snippet, nonce), body: wrapUntrusted(view.body, nonce) };
+}
+
+// Read scope first, then context stripping, sensitive content actions, injection
+// screening, field redaction and envelopes: what every read route returns.
+export function processEmails(raw: EmailItem[], policy: PolicyConfig['email'], contextMode: ContextMode, options: ProcessOptions = {}): ProcessedEmails {
+  const rules = options.rules || SENSITIVE_RULES;
+  const withheldReasons: Partial<Record<WithheldReason, number>> = {};
+  const readable = raw.filter((m) => {
+    const reason = readScopeReason(m, policy);
+    if (reason) withheldReasons[reason] = (withheldReasons[reason] || 0) + 1;
+    return !reason;
+  });
+  const views = readable.map((m) => toEmailView(m, contextMode, policy, rules));
+  const injectionFlags = views.filter((x) => x.view.injectionRisk > 0).map(({ view: v }) => ({ id: v.id, injectionRisk: v.injectionRisk, injectionReasons: v.injectionReasons }));
+  const filtered = applySensitiveActions(views, policy, rules);
+  const screened = applyInjectionPolicy(filtered.items, policy);
+  const warnings = [...(filtered.warnings || []), ...screened.warnings];
+  const nonce = options.envelopeNonce;
+  return {
+    ...filtered,
+    items: screened.items.map((v) => applyFieldRedaction(v, policy.redaction)).map((v) => (nonce ? envelopeView(v, nonce) : v)),
+    warnings: warnings.length > 0 ? warnings : undefined,
+    withheldCount: raw.length - readable.length,
+    withheldReasons,
+    injectionBlockedCount: screened.blockedCount,
+    injectionFlags: injectionFlags.length > 0 ? injectionFlags : undefined,
+  };
+}
@@ -0,0 +1,68 @@
+// Structured email search. Agents never supply Gmail query syntax: each field
+// is validated on its own and gshield writes the query, so the window bound
+// cannot be dropped or widened with an `OR`, a `-` or an `older_than:`.
+
+export type EmailSearch = {
+  from?: string;
+  subject?: string[];
+  hasAttachment?: boolean;
+  label?: string;
+  state: 'read' | 'unread' | 'any';
+};
+
+export type SearchParseResult = { ok: true; search: EmailSearch } | { ok: false; error: string; field: string };
+
+export const SEARCH_PARAMS = ['from', 'subject', 'hasAttachment', 'label', 'state', 'days', 'contextMode', 'envelope'] as const;
+
+const MAX_SUBJECT_WORDS = 10;
+const SENDER = /^[a-z0-9._%+-]+(@[a-z0-9.-]+)?$|^@?[a-z0-9.-]+\.[a-z]{2,}$/i;
+const WORD = /^[\p{L}\p{N}][\p{L}\p{N}'._-]{0,63}$/u;
+const LABEL = /^[\p{L}\p{N}][\p{L}\p{N} _./&-]{0,99}$/u;
+const OPERATOR_WORDS = new Set(['OR', 'AND', 'AROUND']);
+
+export function parseEmailSearch(get: (name: string) => string | undefined, names: string[]): SearchParseResult {
+  // Anything not in the structured vocabulary, including a raw `q`, is refused rather than ignored.
+  const unknown = names.find((n) => !(SEARCH_PARAMS as readonly string[]).includes(n));
+  if (unknown) return { ok: false, error: unknown === 'q' ? 'raw_query_not_allowed' : 'unknown_parameter', field: unknown };
+
+  const search: EmailSearch = { state: 'any' };
+  const from = get('from')?.trim();
+  if (from) {
+    if (!SENDER.test(from)) return { ok: false, error: 'invalid_query', field: 'from' };
+    search.from = from.replace(/^@/, '').toLowerCase();
+  }
+  const subject = get('subject')?.trim();
+  if (subject) {
+    const words = subject.split(/\s+/);
+    if (words.length > MAX_SUBJECT_WORDS || words.some((w) => !WORD.test(w) || OPERATOR_WORDS.has(w))) return { ok: false, error: 'invalid_query', field: 'subject' };
+    search.subject = words;
+  }
+  const attachment = get('hasAttachment');
+  if (attachment !== undefined) {
+    if (attachment !== 'true' && attachment !== 'false') return { ok: false, error: 'invalid_query', field: 'hasAttachment' };
+    search.hasAttachment = attachment === 'true';
+  }
+  const label = get('label')?.trim();
+  if (label) {
+    if (!LABEL.test(label)) return { ok: false, error: 'invalid_query', field: 'label' };
+    search.label = label;
+  }
+  const state = get('state');
+  if (state !== undefined) {
+    if (state !== 'read' && state !== 'unread' && state !== 'any') return { ok: false, error: 'invalid_query', field: 'state' };
+    search.state = state;
+  }
+  return { ok: true, search };
+}
+
+// Every term is ANDed; the age bound is always the last term.
+export function compileGmailQuery(search: EmailSearch, days: number): string {
+  const terms: string[] = [];
+  if (search.from) terms.push(`from:${search.from}`);
+  for (const word of search.subject || []) terms.push(`subject:${word}`);
+  if (search.hasAttachment !== undefined) terms.push(search.hasAttachment ? 'has:attachment' : '-has:attachment');
+  if (search.label) terms.push(`label:${search.label.toLowerCase().replace(/[\s/&]+/g, '-')}`);
+  if (search.state !== 'any') terms.push(`is:${search.state}`);
+  terms.push(`newer_than:${days}d`);
+  return terms.join(' ');
+}
@@ -0,0 +1,123 @@
+// HTML mail to plain text. Scripts, styles, images and anything styled to be
+// invisible are dropped with their contents, so what classification sees is
+// what a person reading the message would see.
+
+export type NormalizedBody = { text: string; html: boolean; hiddenRemoved: boolean };
+
+const DROP_WITH_CONTENT = new Set(['script', 'style', 'head', 'title', 'noscript', 'template', 'svg', 'object', 'iframe']);
+const VOID = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const BLOCK = new Set(['address', 'article', 'aside', 'blockquote', 'div', 'dl', 'dt', 'dd', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'tr', 'ul']);
+const HIDDEN_STYLE = /(display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(\.0+)?(px|pt|em|rem|%)?\s*(;|$)|opacity\s*:\s*0(\.0+)?\s*(;|$)|max-height\s*:\s*0(px)?\s*(;|$))/i;
+const HTML_HINT = /<(html|body|div|p|br|table|span|a|img|style|script|font|td)\b/i;
+// Start of a tag, a declaration (`<!`) or a processing instruction (`<?`), matched at one position.
+const TAG_START = /<(?:\/?([a-z][a-z0-9-]*)\b|[!?])/iy;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•',
+  middot: '·', euro: '€', pound: '£', yen: '¥', cent: '¢', zwnj: '\u200C', zwj: '\u200D', shy: '\u00AD',
+};
+
+// A hint tag only counts once something closes it; checked with indexOf so an
+// unclosed `<div` costs one pass, not one per occurrence.
+export function looksLikeHtml(text = ''): boolean {
+  const m = HTML_HINT.exec(text);
+  return !!m && text.includes('>', m.index);
+}
+
+export function decodeEntities(text = ''): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    }
+    return ENTITIES[ref.toLowerCase()] ?? whole;
+  });
+}
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))?.slice(2).find((v) => v !== undefined);
+
+function isHidden(tag: string): boolean {
+  if (/\shidden(\s|=|\/?>)/i.test(tag)) return true;
+  if ((attr(tag, 'aria-hidden') || '').toLowerCase() === 'true') return true;
+  return HIDDEN_STYLE.test(decodeEntities(attr(tag, 'style') || ''));
+}
+
+export function htmlToText(html: string): { text: string; hiddenRemoved: boolean } {
+  let hiddenRemoved = false;
+  let out = '';
+  // Name and depth of the element being skipped, if any; nested tags of the same name are counted.
+  let skip: { name: string; depth: number } | null = null;
+  const links: string[] = [];
+  // One forward pass: each tag runs to the next `>`, and a `<` that nothing
+  // closes is left as text, so hostile markup costs no more than its length.
+  let last = 0;
+  // Once no `-->` is left, later comments are not searched for one again.
+  let commentsClose = true;
+  for (let lt = html.indexOf('<'); lt >= 0; lt = html.indexOf('<', lt + 1)) {
+    // Comments are dropped with their contents; an unclosed one ends at the next `>` like `<!...>`.
+    const close = commentsClose && html.startsWith('<!--', lt) ? html.indexOf('-->', lt + 4) : -1;
+    if (close < 0 && html.startsWith('<!--', lt)) commentsClose = false;
+    if (close >= 0) {
+      if (!skip) out += html.slice(last, lt);
+      last = close + 3;
+      lt = close + 2;
+      hiddenRemoved = true;
+      continue;
+    }
+    TAG_START.lastIndex = lt;
+    const m = TAG_START.exec(html);
+    if (!m) continue;
+    const gt = html.indexOf('>', lt);
+    if (gt < 0) break;
+    if (!skip) out += html.slice(last, lt);
+    const tag = html.slice(lt, gt + 1);
+    last = gt + 1;
+    lt = gt;
+    const name = (m[1] || '').toLowerCase();
+    if (!name) continue;
+    const closing = tag.startsWith('</');
+    const selfClosing = VOID.has(name) || tag.endsWith('/>');
+    if (skip) {
+      if (name === skip.name && !selfClosing) skip.depth += closing ? -1 : 1;
+      if (skip.depth === 0) skip = null;
+      continue;
+    }
+    if (!closing && !selfClosing && (DROP_WITH_CONTENT.has(name) || isHidden(tag))) {
+      if (!DROP_WITH_CONTENT.has(name)) hiddenRemoved = true;
+      skip = { name, depth: 1 };
+      continue;
+    }
+    if (name === 'br') out += '\n';
+    else if (name === 'li') out += closing ? '' : '\n- ';
+    else if (name === 'td' || name === 'th') out += closing ? '' : ' ';
+    else if (BLOCK.has(name)) out += '\n';
+    else if (name === 'a' && !closing) links.push(attr(tag, 'href') || '');
+    else if (name === 'a' && closing) {
+      const href = decodeEntities(links.pop() || '');
+      if (/^https?:\/\//i.test(href) && !out.trimEnd().endsWith(href)) out += ` (${href})`;
+    }
+  }
+  if (!skip) out += html.slice(last);
+  const text = decodeEntities(out)
+    .replace(/\u00A0/g, ' ')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\f\v]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { text, hiddenRemoved };
+}
+
+// Plain-text bodies are returned unchanged; HTML bodies are converted.
+export function normalizeBody(body = ''): NormalizedBody {
+  if (!looksLikeHtml(body)) return { text: body, html: false, hiddenRemoved: false };
+  return { ...htmlToText(body), html: true };
+}
+
+// Cuts at `max` characters without splitting a surrogate pair.
+export function capText(text: string, max: number): { text: string; truncated: boolean } {
+  if (text.length <= max) return { text, truncated: false };
+  const end = /[\uD800-\uDBFF]/.test(text[max - 1]) ? max - 1 : max;
+  return { text: text.slice(0, end), truncated: true };
+}
@@ -0,0 +1,61 @@
+import crypto from 'node:crypto';
+
+// Prompt-injection heuristics for email content. Nothing here proves intent;
+// each signal adds to a 0–1 risk score and names itself, so policy can block
+// above a threshold and agents can see why a message was flagged.
+
+export type InjectionReason = 'assistant_instruction' | 'fake_markup' | 'hidden_text' | 'invisible_characters';
+
+export type InjectionAssessment = { score: number; reasons: InjectionReason[] };
+
+const SIGNALS: Array<{ reason: InjectionReason; weight: number; patterns: RegExp[] }> = [
+  {
+    reason: 'assistant_instruction',
+    weight: 0.7,
+    patterns: [
+      /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+)?(of\s+)?(the\s+|your\s+)?(previous|prior|above|earlier|preceding|original)\s+(instructions?|prompts?|rules|directions|context)\b/i,
+      /\b(you\s+are\s+now|pretend\s+(to\s+be|you\s+are)|new\s+instructions?\s*:|system\s+prompt|developer\s+mode|jailbreak)\b/i,
+      /\b(ai|assistant|agent|llm|language\s+model|chatbot)\s*[,:]?\s+(you\s+)?(must|should|are\s+instructed\s+to|need\s+to)\s+\w+/i,
+      /\b(do\s+not|don['’]?t|never)\s+(tell|inform|notify|alert|mention\s+(this\s+)?to)\s+the\s+(user|owner|human)\b/i,
+    ],
+  },
+  {
+    reason: 'fake_markup',
+    weight: 0.7,
+    patterns: [
+      /<\|(im_start|im_end|system|endoftext)\|>/i,
+      /<\/?(system|assistant|tool_call|tool_use|tool_result|function_calls?|invoke)\b[^>]*>/i,
+      /\[\/?(SYSTEM|INST)\]|<<\/?SYS>>/,
+      /"role"\s*:\s*"(system|tool|assistant)"/i,
+      /^\s*(system|assistant)\s*:\s*\S/im,
+    ],
+  },
+  {
+    reason: 'hidden_text',
+    weight: 0.3,
+    patterns: [
+      /(display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(\.0+)?(px|pt|em|rem|%)?\s*[;"']|opacity\s*:\s*0(\.0+)?\s*[;"']|color\s*:\s*(#fff(fff)?|white)\s*[;"'])/i,
+      /<!--[\s\S]*?-->/,
+    ],
+  },
+  {
+    reason: 'invisible_characters',
+    weight: 0.3,
+    patterns: [/[\u00AD\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/],
+  },
+];
+
+// `observed` carries signals found before the text was produced, such as hidden HTML removed during normalisation.
+export function assessInjection(text = '', observed: InjectionReason[] = []): InjectionAssessment {
+  const fired = SIGNALS.filter((s) => observed.includes(s.reason) || s.patterns.some((p) => p.test(text)));
+  const score = Math.min(1, fired.reduce((sum, s) => sum + s.weight, 0));
+  return { score: Math.round(score * 100) / 100, reasons: fired.map((s) => s.reason) };
+}
+
+export const envelopeNonce = () => crypto.randomBytes(6).toString('hex');
+
+// The nonce is fresh per response, so content cannot close the envelope early by quoting the end marker.
+export function wrapUntrusted(text: string, nonce: string): string {
+  if (!text) return text;
+  return `[BEGIN UNTRUSTED EMAIL CONTENT ${nonce}]\n${text}\n[END UNTRUSTED EMAIL CONTENT ${nonce}]`;
+}
@@ -0,0 +1,46 @@
+import { findAgent, hashApiKey } from './agents.ts';
+import { randomKey } from './config.ts';
+import type { WrapperConfig } from './types.ts';
+
+// Config values that are secrets in their own right. Key hashes are not listed:
+// they cannot be turned back into keys.
+const SECRET_KEYS = new Set(['apiKey', 'previousApiKey', 'tokenSigningKey', 'previousTokenSigningKey', 'hmacKey', 'hashKey']);
+
+// The new key signs from now on; the old one moves to the previous slot so
+// tokens it already signed keep verifying until they expire.
+export function rotateSigningKey(cfg: WrapperConfig): WrapperConfig {
+  return { ...cfg, auth: { ...cfg.auth, previousTokenSigningKey: cfg.auth.tokenSigningKey, tokenSigningKey: randomKey(32) } };
+}
+
+export type ApiKeyRotation = { cfg: WrapperConfig; key: string; previousValidUntil: string | null };
+
+// Replaces the shared apiKey, or one agent's key, and keeps the old key valid
+// for `graceHours`. A grace of 0 revokes the old key at once.
+export function rotateApiKey(cfg: WrapperConfig, opts: { agent?: string; graceHours: number; now?: Date }): ApiKeyRotation {
+  const key = randomKey(24);
+  const until = opts.graceHours > 0 ? new Date((opts.now ?? new Date()).getTime() + opts.graceHours * 3_600_000).toISOString() : null;
+  if (opts.agent) {
+    const agent = findAgent(cfg, opts.agent);
+    if (!agent) throw new Error(`No agent named "${opts.agent}"`);
+    const { previousKeyHash, previousKeyExpiresAt, ...rest } = agent;
+    const next = until ? { ...rest, keyHash: hashApiKey(key), previousKeyHash: agent.keyHash, previousKeyExpiresAt: until } : { ...rest, keyHash: hashApiKey(key) };
+    return { cfg: { ...cfg, agents: (cfg.agents || []).map((a) => (a === agent ? next : a)) }, key, previousValidUntil: until };
+  }
+  if (!cfg.auth.apiKey) throw new Error('No shared auth.apiKey is configured; rotate an agent key with --agent');
+  const { previousApiKey, previousApiKeyExpiresAt, ...auth } = cfg.auth;
+  const nextAuth = until ? { ...auth, apiKey: key, previousApiKey: cfg.auth.apiKey, previousApiKeyExpiresAt: until } : { ...auth, apiKey: key };
+  return { cfg: { ...cfg, auth: nextAuth }, key, previousValidUntil: until };
+}
+
+function mask(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(mask);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [
+    k,
+    SECRET_KEYS.has(k) && typeof v === 'string' ? (v ? `<set, ${v.length} chars>` : '') : mask(v),
+  ]));
+}
+
+export function maskSecrets(cfg: WrapperConfig): unknown {
+  return mask(cfg);
+}
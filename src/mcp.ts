@@ -0,0 +1,258 @@
+import readline from 'node:readline';
+
+// MCP front end. Each tool is a thin mapping onto a /v1 route and every call
+// goes through the same HTTP app as any other client, so policy clamps,
+// filters, quotas, scopes and audit logging cannot drift from the routes.
+
+type JsonSchema = Record<string, unknown>;
+type RouteCall = { method: 'GET' | 'POST' | 'PATCH'; path: string; query?: Record<string, string | undefined>; body?: Record<string, unknown> };
+
+export type McpTool = {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  route: (args: Record<string, any>) => RouteCall;
+};
+
+export type McpFetch = (req: Request) => Response | Promise<Response>;
+
+type JsonRpcId = string | number | null;
+type JsonRpcMessage = { jsonrpc?: string; id?: JsonRpcId; method?: string; params?: any };
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const text = (description: string): JsonSchema => ({ type: 'string', description });
+const stringList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+const object = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({ type: 'object', properties, required, additionalProperties: false });
+const contextMode: JsonSchema = { type: 'string', enum: ['full_thread', 'latest_only'], description: 'Strip quoted history with latest_only' };
+const recipients = {
+  to: stringList('Recipient addresses'),
+  cc: stringList('Cc addresses'),
+  bcc: stringList('Bcc addresses, if policy allows bcc'),
+};
+const envelope: JsonSchema = { type: 'boolean', description: 'Wrap subject, snippet and body in untrusted-content markers' };
+const pick = (args: Record<string, any>, keys: string[]) => Object.fromEntries(keys.filter((k) => args[k] !== undefined).map((k) => [k, args[k]]));
+
+export const MCP_TOOLS: McpTool[] = [
+  {
+    name: 'email_unread',
+    description: 'List recent unread email. The window is capped by policy and auth-sensitive messages may be withheld.',
+    inputSchema: object({
+      days: { type: 'integer', minimum: 1, description: 'Look-back in days, capped at policy.email.maxRecentDays' },
+      contextMode,
+      envelope,
+      cursor: text('Cursor from a previous call; only mail not returned since then is listed'),
+    }),
+    route: (a) => ({ method: 'GET', path: '/v1/email/unread', query: { days: a.days?.toString(), contextMode: a.contextMode, envelope: a.envelope?.toString(), cursor: a.cursor } }),
+  },
+  {
+    name: 'email_search',
+    description: 'Search recent email by sender, subject words, attachment, label and read state. Results are bounded by the policy window.',
+    inputSchema: object({
+      from: text('Sender address or domain'),
+      subject: text('Words that must all appear in the subject'),
+      hasAttachment: { type: 'boolean', description: 'Only messages with (true) or without (false) attachments' },
+      label: text('Gmail label'),
+      state: { type: 'string', enum: ['read', 'unread', 'any'], description: 'Read state, default any' },
+      days: { type: 'integer', minimum: 1, description: 'Look-back in days, capped at policy.email.maxRecentDays' },
+      contextMode,
+      envelope,
+    }),
+    route: (a) => ({
+      method: 'GET',
+      path: '/v1/email/search',
+      query: { from: a.from, subject: a.subject, hasAttachment: a.hasAttachment?.toString(), label: a.label, state: a.state, days: a.days?.toString(), contextMode: a.contextMode, envelope: a.envelope?.toString() },
+    }),
+  },
+  {
+    name: 'email_message',
+    description: 'Read one message by id. Messages outside the window or withheld by policy are reported as not found.',
+    inputSchema: object({
+      id: text('Message id'),
+      contextMode,
+      envelope,
+    }, ['id']),
+    route: (a) => ({ method: 'GET', path: `/v1/email/messages/${encodeURIComponent(String(a.id ?? ''))}`, query: { contextMode: a.contextMode, envelope: a.envelope?.toString() } }),
+  },
+  {
+    name: 'email_attachment',
+    description: 'Download an attachment of a readable message, as base64 or extracted text. Allowed types and sizes are set by policy.',
+    inputSchema: object({
+      messageId: text('Message id'),
+      attachmentId: text('Attachment id from the message\'s attachments list'),
+      format: { type: 'string', enum: ['base64', 'text'], description: 'text extracts PDFs, HTML and plain text; default base64' },
+    }, ['messageId', 'attachmentId']),
+    route: (a) => ({
+      method: 'GET',
+      path: `/v1/email/messages/${encodeURIComponent(String(a.messageId ?? ''))}/attachments/${encodeURIComponent(String(a.attachmentId ?? ''))}`,
+      query: { format: a.format },
+    }),
+  },
+  {
+    name: 'email_thread',
+    description: 'Read the messages of a thread that fall inside the window and pass policy.',
+    inputSchema: object({
+      threadId: text('Thread id'),
+      contextMode,
+      envelope,
+    }, ['threadId']),
+    route: (a) => ({ method: 'GET', path: `/v1/email/threads/${encodeURIComponent(String(a.threadId ?? ''))}`, query: { contextMode: a.contextMode, envelope: a.envelope?.toString() } }),
+  },
+  {
+    name: 'email_modify',
+    description: 'Mark a readable message read or unread, archive it, or add and remove allowlisted labels. Cannot trash or delete.',
+    inputSchema: object({
+      messageId: text('Message id'),
+      markRead: { type: 'boolean', description: 'true marks read, false marks unread' },
+      archive: { type: 'boolean', description: 'true removes from the inbox, false moves back' },
+      addLabels: stringList('Labels to add, from the configured allowlist'),
+      removeLabels: stringList('Labels to remove, from the configured allowlist'),
+    }, ['messageId']),
+    route: (a) => ({ method: 'POST', path: `/v1/email/messages/${encodeURIComponent(String(a.messageId ?? ''))}/modify`, body: pick(a, ['markRead', 'archive', 'addLabels', 'removeLabels']) }),
+  },
+  {
+    name: 'calendar_events',
+    description: 'List calendar events in a time range, clamped to the configured window.',
+    inputSchema: object({
+      start: text('ISO start time'),
+      end: text('ISO end time'),
+      calendars: stringList('Subset of the configured calendar IDs'),
+    }),
+    route: (a) => ({ method: 'GET', path: '/v1/calendar/events', query: { start: a.start, end: a.end, calendars: Array.isArray(a.calendars) ? a.calendars.join(',') : undefined } }),
+  },
+  {
+    name: 'calendar_create',
+    description: 'Create a calendar event on an allowed calendar.',
+    inputSchema: object({
+      calendarId: text('Calendar to write to'),
+      summary: text('Event title'),
+      start: text('ISO start time'),
+      end: text('ISO end time'),
+      location: text('Optional location'),
+      attendees: stringList('Attendee addresses, if policy allows attendees'),
+    }, ['calendarId', 'summary', 'start', 'end']),
+    route: (a) => ({ method: 'POST', path: '/v1/calendar/events', body: pick(a, ['calendarId', 'summary', 'start', 'end', 'location', 'attendees']) }),
+  },
+  {
+    name: 'calendar_update',
+    description: 'Update an existing calendar event on an allowed calendar.',
+    inputSchema: object({
+      eventId: text('Event to update'),
+      calendarId: text('Calendar the event is on'),
+      summary: text('New title'),
+      start: text('New ISO start time'),
+      end: text('New ISO end time'),
+      location: text('New location'),
+      addAttendees: stringList('Attendees to add, if policy allows attendees'),
+    }, ['eventId', 'calendarId']),
+    route: (a) => ({ method: 'PATCH', path: `/v1/calendar/events/${encodeURIComponent(String(a.eventId ?? ''))}`, body: pick(a, ['calendarId', 'summary', 'start', 'end', 'location', 'addAttendees']) }),
+  },
+  {
+    name: 'email_reply',
+    description: 'Reply on an existing thread. May be queued for human approval.',
+    inputSchema: object({ threadId: text('Thread to reply on'), ...recipients, subject: text('Subject'), body: text('Plain-text body') }, ['threadId', 'to', 'subject', 'body']),
+    route: (a) => ({ method: 'POST', path: '/v1/email/reply', body: pick(a, ['threadId', 'to', 'cc', 'bcc', 'subject', 'body']) }),
+  },
+  {
+    name: 'email_send',
+    description: 'Send a new email to an allowed recipient. May be queued for human approval.',
+    inputSchema: object({ ...recipients, subject: text('Subject'), body: text('Plain-text body') }, ['to', 'subject', 'body']),
+    route: (a) => ({ method: 'POST', path: '/v1/email/send', body: pick(a, ['to', 'cc', 'bcc', 'subject', 'body']) }),
+  },
+  {
+    name: 'email_draft',
+    description: 'Save a Gmail draft for a person to review and send. With threadId it is a reply draft. Allowed in every outbound mode.',
+    inputSchema: object({ threadId: text('Thread to reply on; omit for a new message'), ...recipients, subject: text('Subject'), body: text('Plain-text body') }, ['to', 'subject', 'body']),
+    route: (a) => ({ method: 'POST', path: '/v1/email/drafts', body: pick(a, ['threadId', 'to', 'cc', 'bcc', 'subject', 'body']) }),
+  },
+  {
+    name: 'email_draft_update',
+    description: 'Change the recipients, subject or body of an existing draft. Recipient lists given here replace the old ones.',
+    inputSchema: object({ draftId: text('Draft to update'), ...recipients, subject: text('New subject'), body: text('New plain-text body') }, ['draftId']),
+    route: (a) => ({ method: 'PATCH', path: `/v1/email/drafts/${encodeURIComponent(String(a.draftId ?? ''))}`, body: pick(a, ['to', 'cc', 'bcc', 'subject', 'body']) }),
+  },
+];
+
+function buildRequest(baseUrl: string, apiKey: string, call: RouteCall): Request {
+  const url = new URL(call.path, baseUrl);
+  for (const [k, v] of Object.entries(call.query || {})) if (v !== undefined && v !== '') url.searchParams.set(k, v);
+  const headers: Record<string, string> = { 'x-api-key': apiKey };
+  if (call.body) headers['content-type'] = 'application/json';
+  return new Request(url, { method: call.method, headers, body: call.body ? JSON.stringify(call.body) : undefined });
+}
+
+const rpcResult = (id: JsonRpcId, result: unknown) => ({ jsonrpc: '2.0', id, result });
+const rpcError = (id: JsonRpcId, code: number, message: string) => ({ jsonrpc: '2.0', id, error: { code, message } });
+
+// A parsed line can be any JSON value; only a non-array object is a message.
+function isMessage(v: unknown): v is JsonRpcMessage {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+// Returns null for notifications, which get no response.
+export function createMcpHandler(opts: { fetch: McpFetch; apiKey: string; baseUrl?: string; version?: string }) {
+  const baseUrl = opts.baseUrl || 'http://gshield.local';
+
+  async function callTool(params: any) {
+    const tool = MCP_TOOLS.find((t) => t.name === params?.name);
+    if (!tool) return null;
+    const args = params.arguments ?? {};
+    if (!args || typeof args !== 'object' || Array.isArray(args)) return { content: [{ type: 'text', text: 'arguments must be an object' }], isError: true };
+    const res = await opts.fetch(buildRequest(baseUrl, opts.apiKey, tool.route(args)));
+    const body = await res.json().catch(() => ({ error: 'invalid_response' }));
+    // Denials come back as tool errors with the route's error code, not as protocol errors.
+    const data = res.ok ? body : { status: res.status, ...body };
+    return { content: [{ type: 'text', text: JSON.stringify(data) }], structuredContent: data, isError: !res.ok };
+  }
+
+  return async function handle(msg: unknown): Promise<object | null> {
+    if (!isMessage(msg)) return rpcError(null, -32600, 'Invalid Request');
+    const id = msg.id ?? null;
+    const isNotification = msg.id === undefined;
+    if (msg.jsonrpc !== '2.0' || typeof msg.method !== 'string') return isNotification ? null : rpcError(id, -32600, 'Invalid Request');
+    switch (msg.method) {
+      case 'initialize': {
+        const requested = msg.params?.protocolVersion;
+        return rpcResult(id, {
+          protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'gshield', version: opts.version || '0.0.0' },
+        });
+      }
+      case 'ping':
+        return rpcResult(id, {});
+      case 'tools/list':
+        return rpcResult(id, { tools: MCP_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) });
+      case 'tools/call': {
+        const result = await callTool(msg.params);
+        return result ? rpcResult(id, result) : rpcError(id, -32602, `Unknown tool: ${msg.params?.name}`);
+      }
+      default:
+        return isNotification ? null : rpcError(id, -32601, `Method not found: ${msg.method}`);
+    }
+  };
+}
+
+// Newline-delimited JSON-RPC, as the MCP stdio transport specifies. Messages
+// are answered in order; stdout carries protocol traffic only.
+export function serveMcpStdio(handle: ReturnType<typeof createMcpHandler>, input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout): Promise<void> {
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  let queue = Promise.resolve();
+  rl.on('line', (line) => {
+    if (!line.trim()) return;
+    // The chain must never reject, or every later message would go unanswered.
+    queue = queue.then(async () => {
+      let msg: unknown;
+      try {
+        msg = JSON.parse(line);
+      } catch {
+        output.write(JSON.stringify(rpcError(null, -32700, 'Parse error')) + '\n');
+        return;
+      }
+      const id = isMessage(msg) ? msg.id ?? null : null;
+      const res = await handle(msg).catch((err) => rpcError(id, -32603, err?.message || 'Internal error'));
+      if (res) output.write(JSON.stringify(res) + '\n');
+    }).catch(() => {});
+  });
+  return new Promise((resolve) => rl.on('close', () => { queue.then(() => resolve()); }));
+}
@@ -0,0 +1,158 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { OutboundRequest } from './approvals.ts';
+
+// Delayed-send outbox. Accepted sends wait here until `sendAt`, one file per
+// item, so they survive restarts and can be cancelled until the worker claims
+// them. Finished items stay for status queries without their subject or body.
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+export type OutboxItem = {
+  id: string;
+  kind: 'reply' | 'new';
+  principal: string;
+  status: OutboxStatus;
+  createdAt: string;
+  sendAt: string;
+  updatedAt: string;
+  request: OutboundRequest | Omit<OutboundRequest, 'subject' | 'body'>;
+  resultId?: string;
+  error?: string;
+};
+
+export type QueuedOutboxItem = OutboxItem & { request: OutboundRequest };
+
+// Finished items are kept this long for status queries.
+const FINISHED_RETENTION_MS = 7 * 24 * 3_600_000;
+
+function outboxDir(): string {
+  return process.env.SECURE_WRAPPER_OUTBOX_DIR || path.join(process.cwd(), 'logs', 'outbox');
+}
+
+function isSafeId(id: string): boolean {
+  return /^[a-f0-9-]{16,64}$/i.test(id);
+}
+
+function itemFile(id: string): string {
+  return path.join(outboxDir(), `${id}.json`);
+}
+
+function readItem(file: string): OutboxItem | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as OutboxItem;
+  } catch {
+    return null;
+  }
+}
+
+function writeItem(item: OutboxItem) {
+  fs.mkdirSync(outboxDir(), { recursive: true, mode: 0o700 });
+  const file = itemFile(item.id);
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(item, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+}
+
+// Same rename claim as the approval queue: whoever renames the file owns the transition.
+function claim(id: string): OutboxItem | null {
+  const file = itemFile(id);
+  const claimed = `${file}.claimed-${process.pid}-${crypto.randomUUID()}`;
+  try {
+    fs.renameSync(file, claimed);
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return null;
+    throw err;
+  }
+  const item = readItem(claimed);
+  fs.rmSync(claimed, { force: true });
+  return item;
+}
+
+function update(item: OutboxItem, status: OutboxStatus, extra: { resultId?: string; error?: string } = {}, now = Date.now()): OutboxItem {
+  const { threadId, to, cc, bcc } = item.request;
+  const request = status === 'queued' || status === 'sending' ? item.request : { threadId, to, cc, bcc };
+  const next = { ...item, ...extra, status, request, updatedAt: new Date(now).toISOString() };
+  writeItem(next);
+  return next;
+}
+
+export function enqueueOutbox(input: { kind: OutboxItem['kind']; principal: string; request: OutboundRequest; delaySeconds: number }, now = Date.now()): QueuedOutboxItem {
+  const item: QueuedOutboxItem = {
+    id: crypto.randomUUID(),
+    kind: input.kind,
+    principal: input.principal,
+    status: 'queued',
+    createdAt: new Date(now).toISOString(),
+    sendAt: new Date(now + input.delaySeconds * 1000).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+    request: input.request,
+  };
+  writeItem(item);
+  return item;
+}
+
+export function getOutboxItem(id: string): OutboxItem | null {
+  if (!isSafeId(id)) return null;
+  return readItem(itemFile(id));
+}
+
+// Oldest first. Finished items past retention are deleted on the way.
+export function listOutbox(now = Date.now()): OutboxItem[] {
+  const dir = outboxDir();
+  if (!fs.existsSync(dir)) return [];
+  const items: OutboxItem[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(dir, name);
+    const item = readItem(file);
+    if (!item) continue;
+    if (!['queued', 'sending'].includes(item.status) && Date.parse(item.updatedAt) + FINISHED_RETENTION_MS <= now) {
+      fs.rmSync(file, { force: true });
+      continue;
+    }
+    items.push(item);
+  }
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Only queued items can be cancelled; anything else comes back unchanged with `ok: false`.
+export function cancelOutbox(id: string, now = Date.now()): { ok: true; item: OutboxItem } | { ok: false; item: OutboxItem | null } {
+  if (!isSafeId(id)) return { ok: false, item: null };
+  const item = claim(id);
+  if (!item) return { ok: false, item: getOutboxItem(id) };
+  if (item.status !== 'queued') {
+    writeItem(item);
+    return { ok: false, item };
+  }
+  return { ok: true, item: update(item, 'cancelled', {}, now) };
+}
+
+// Claims every queued item that is due and marks it `sending`. The caller
+// delivers each one and records the result with `finishOutbox`. Items `held`
+// returns true for stay queued, and cancellable, until a later round.
+export function claimDueOutbox(now = Date.now(), held: (item: OutboxItem) => boolean = () => false): QueuedOutboxItem[] {
+  const due: QueuedOutboxItem[] = [];
+  for (const listed of listOutbox(now)) {
+    if (listed.status !== 'queued' || Date.parse(listed.sendAt) > now || held(listed)) continue;
+    const item = claim(listed.id);
+    if (!item) continue;
+    if (item.status !== 'queued') {
+      writeItem(item);
+      continue;
+    }
+    due.push(update(item, 'sending', {}, now) as QueuedOutboxItem);
+  }
+  return due;
+}
+
+export function finishOutbox(item: OutboxItem, result: { resultId: string } | { error: string }, now = Date.now()): OutboxItem {
+  return update(item, 'resultId' in result ? 'sent' : 'failed', result, now);
+}
+
+// An item still `sending` when the worker starts was cut off mid-delivery. It
+// may or may not have gone out, so it is failed rather than sent twice.
+export function recoverOutbox(now = Date.now()): OutboxItem[] {
+  return listOutbox(now).filter((i) => i.status === 'sending').map((i) => update(i, 'failed', { error: 'interrupted' }, now));
+}
@@ -1,3 +1,5 @@
+import type { Recipients } from './types.ts';
+
 export function weekBounds(now = new Date()) {
   const d = new Date(now);
   const day = d.getUTCDay();
@@ -59,6 +61,21 @@ function normalizeAddress(input: string): string | null {
   return normalized;
 }
 
+// Bare addresses from a header value such as `"Ann" <ann@x.com>, bob@y.org`.
+export function headerAddresses(value: string | undefined): string[] {
+  return (value || '').match(/[^\s<>,;"']+@[^\s<>,;"']+/g)?.map((a) => a.toLowerCase()) ?? [];
+}
+
+export function threadParticipants(messages: Array<{ from?: string; to?: string; cc?: string }>): Set<string> {
+  return new Set(messages.flatMap((m) => [...headerAddresses(m.from), ...headerAddresses(m.to), ...headerAddresses(m.cc)]));
+}
+
+// Gmail internalDate is epoch milliseconds. Messages without one are treated as outside the window.
+export function withinEmailWindow(internalDate: string | null | undefined, days: number, now = Date.now()): boolean {
+  const ms = Number(internalDate);
+  return !!internalDate && Number.isFinite(ms) && ms >= now - days * 86_400_000;
+}
+
 export function allowedRecipient(
   to: string,
   allowEmails: string[],
@@ -78,7 +95,97 @@ export function allowedRecipient(
   return false;
 }
 
+export const DEFAULT_MAX_RECIPIENTS = 10;
+export const DEFAULT_MAX_DRAFTS_PER_HOUR = 20;
+export const DEFAULT_MAX_DRAFTS_PER_DAY = 100;
+
+export type RecipientField = 'to' | 'cc' | 'bcc';
+
+export type RejectedRecipient = {
+  address: string;
+  field: RecipientField;
+  reason: 'invalid_address' | 'recipient_not_in_thread' | 'recipient_not_allowed';
+};
+
+// `to`, `cc` and `bcc` from a request body, each a list of addresses or one
+// comma-separated string. `Name <addr>` keeps only the address. Null when a
+// field has the wrong type.
+export function parseRecipients(input: Record<string, unknown>): Required<Recipients> | null {
+  const list = (v: unknown): string[] | null => {
+    if (v === undefined || v === null) return [];
+    const raw = typeof v === 'string' ? v.split(',') : Array.isArray(v) && v.every((a) => typeof a === 'string') ? v : null;
+    return raw && raw.map((a) => (a.match(/<([^<>]*)>\s*$/)?.[1] ?? a).trim()).filter(Boolean);
+  };
+  const to = list(input.to);
+  const cc = list(input.cc);
+  const bcc = list(input.bcc);
+  return to && cc && bcc ? { to, cc, bcc } : null;
+}
+
+export function allRecipients(r: Recipients): string[] {
+  return [...r.to, ...(r.cc || []), ...(r.bcc || [])];
+}
+
+// Checks every address on its own. With `participants` (replies), each address
+// must already be on the thread; `skipAllowlist` leaves out the allowlist, as
+// `allowReplyToAnyone` does for replies.
+export function rejectedRecipients(
+  r: Recipients,
+  allow: { recipientAllowlist: string[]; domainAllowlist: string[]; allowAllRecipients: boolean },
+  opts: { participants?: Set<string>; skipAllowlist?: boolean } = {}
+): RejectedRecipient[] {
+  const rejected: RejectedRecipient[] = [];
+  for (const field of ['to', 'cc', 'bcc'] as const) {
+    for (const address of r[field] || []) {
+      const normalized = normalizeAddress(address);
+      const reason = !normalized ? 'invalid_address'
+        : opts.participants && !opts.participants.has(normalized) ? 'recipient_not_in_thread'
+          : !opts.skipAllowlist && !allowedRecipient(normalized, allow.recipientAllowlist, allow.domainAllowlist, allow.allowAllRecipients) ? 'recipient_not_allowed'
+            : null;
+      if (reason) rejected.push({ address, field, reason });
+    }
+  }
+  return rejected;
+}
+
 export function allowedCalendarForWrite(calendarId: string, allowedIds: string[], configIds: string[]): boolean {
   const writableSet = allowedIds.length > 0 ? allowedIds : configIds;
   return writableSet.includes(calendarId);
 }
+
+export type MessageModification = { markRead?: boolean; archive?: boolean; addLabels?: string[]; removeLabels?: string[] };
+
+// System labels are never set or cleared by name: read state and archive have
+// their own flags, and trash, spam and drafts are out of reach entirely.
+const RESERVED_LABELS = new Set(['UNREAD', 'INBOX', 'TRASH', 'SPAM', 'DRAFT', 'SENT', 'CHAT']);
+
+// Gmail label changes for a modify request. Named labels must be on the
+// allowlist (case-insensitive) and are sent with the allowlist's spelling.
+export function labelChanges(
+  input: Record<string, unknown>,
+  labelAllowlist: string[]
+): { ok: true; addLabels: string[]; removeLabels: string[] } | { ok: false; error: 'missing_fields' | 'invalid_fields' | 'label_not_allowed' } {
+  const known = ['markRead', 'archive', 'addLabels', 'removeLabels'];
+  if (Object.keys(input).some((k) => !known.includes(k))) return { ok: false, error: 'invalid_fields' };
+  const { markRead, archive, addLabels = [], removeLabels = [] } = input as MessageModification;
+  if (markRead !== undefined && typeof markRead !== 'boolean') return { ok: false, error: 'invalid_fields' };
+  if (archive !== undefined && typeof archive !== 'boolean') return { ok: false, error: 'invalid_fields' };
+  const isLabelList = (v: unknown) => Array.isArray(v) && v.every((l) => typeof l === 'string' && l.trim() !== '');
+  if (!isLabelList(addLabels) || !isLabelList(removeLabels)) return { ok: false, error: 'invalid_fields' };
+  if (markRead === undefined && archive === undefined && addLabels.length === 0 && removeLabels.length === 0) return { ok: false, error: 'missing_fields' };
+
+  const allowed = new Map(labelAllowlist.map((l) => [l.trim().toLowerCase(), l.trim()]));
+  const resolve = (labels: string[]) => labels.map((l) => {
+    const key = l.trim().toLowerCase();
+    return RESERVED_LABELS.has(key.toUpperCase()) ? undefined : allowed.get(key);
+  });
+  const add = resolve(addLabels);
+  const remove = resolve(removeLabels);
+  if ([...add, ...remove].some((l) => l === undefined)) return { ok: false, error: 'label_not_allowed' };
+
+  const out = { add: new Set(add as string[]), remove: new Set(remove as string[]) };
+  if (markRead !== undefined) out[markRead ? 'remove' : 'add'].add('UNREAD');
+  if (archive !== undefined) out[archive ? 'remove' : 'add'].add('INBOX');
+  if ([...out.add].some((l) => out.remove.has(l))) return { ok: false, error: 'invalid_fields' };
+  return { ok: true, addLabels: [...out.add], removeLabels: [...out.remove] };
+}
@@ -1,5 +1,9 @@
 import { execFile } from 'node:child_process';
-import type { CalendarEvent, EmailItem } from './types.ts';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { headerAddresses } from './policy.ts';
+import type { CalendarEvent, EmailAttachment, EmailDraft, EmailItem, Recipients } from './types.ts';
 
 function execFileAsync(cmd: string, args: string[]): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -10,10 +14,37 @@ function execFileAsync(cmd: string, args: string[]): Promise<string> {
   });
 }
 
+// Google's message, thread, attachment, draft and event ids are URL-safe base64
+// or hex. Routes refuse anything else, since gog takes ids as positional
+// arguments and would read one starting with `-` as a flag.
+export function isProviderId(id: string): boolean {
+  return /^[A-Za-z0-9_][A-Za-z0-9_-]{0,255}$/.test(id);
+}
+
+// Second line of defence for callers that skipped the route check.
+function gogId(id: string): string {
+  if (!isProviderId(id)) throw new Error('invalid_id');
+  return id;
+}
+
 function looksLikeEmailItem(v: any): v is EmailItem {
   return !!v && typeof v === 'object' && typeof v.id === 'string' && typeof v.threadId === 'string';
 }
 
+// Gmail reports labels as `labelIds` and attachment ids as `attachmentId`; the
+// rest of gshield looks at `labels` and `attachments[].id`. Malformed attachment
+// entries are dropped rather than guessed at.
+function normalizeItem(m: EmailItem & { labelIds?: unknown }): EmailItem {
+  const out: EmailItem = { ...m };
+  if (!m.labels && Array.isArray(m.labelIds)) out.labels = m.labelIds.filter((l): l is string => typeof l === 'string');
+  if (m.attachments !== undefined) {
+    out.attachments = (Array.isArray(m.attachments) ? m.attachments : [])
+      .map((a: any): EmailAttachment => ({ id: a?.id ?? a?.attachmentId, filename: a?.filename ?? '', mimeType: a?.mimeType ?? 'application/octet-stream', size: Number(a?.size) }))
+      .filter((a) => typeof a.id === 'string' && a.id !== '' && typeof a.filename === 'string' && Number.isFinite(a.size));
+  }
+  return out;
+}
+
 export function parseEmailOutput(stdout: string): EmailItem[] {
   const trimmed = stdout.trim();
   if (!trimmed) return [];
@@ -21,7 +52,7 @@ export function parseEmailOutput(stdout: string): EmailItem[] {
   try {
     const parsed = JSON.parse(trimmed);
     const arr = Array.isArray(parsed) ? parsed : (parsed.messages || parsed.items || []);
-    return Array.isArray(arr) ? arr.filter(looksLikeEmailItem) : [];
+    return Array.isArray(arr) ? arr.filter(looksLikeEmailItem).map(normalizeItem) : [];
   } catch {
     // Safe fallback: only accept JSONL-like lines, never plain text lines as synthetic emails.
     return trimmed
@@ -31,7 +62,29 @@ export function parseEmailOutput(stdout: string): EmailItem[] {
       .map((line) => {
         try { return JSON.parse(line); } catch { return null; }
       })
-      .filter(looksLikeEmailItem);
+      .filter(looksLikeEmailItem)
+      .map(normalizeItem);
+  }
+}
+
+// gog prints a draft either flat or wrapped around its message; headers may sit in `payload.headers`.
+export function parseDraftOutput(stdout: string): EmailDraft | null {
+  try {
+    const parsed = JSON.parse(stdout.trim());
+    const msg = parsed?.message ?? parsed;
+    const header = (name: string) => msg?.payload?.headers?.find((h: any) => String(h?.name).toLowerCase() === name)?.value;
+    const id = parsed?.id ?? parsed?.draftId;
+    if (typeof id !== 'string' || !id) return null;
+    const list = (v: unknown) => (Array.isArray(v) ? v.filter((a): a is string => typeof a === 'string') : headerAddresses(typeof v === 'string' ? v : undefined));
+    const draft: EmailDraft = { id, to: list(msg?.to ?? header('to')), subject: msg?.subject ?? header('subject') ?? '', body: msg?.body ?? '' };
+    const cc = list(msg?.cc ?? header('cc'));
+    const bcc = list(msg?.bcc ?? header('bcc'));
+    if (cc.length) draft.cc = cc;
+    if (bcc.length) draft.bcc = bcc;
+    if (typeof msg?.threadId === 'string' && msg.threadId) draft.threadId = msg.threadId;
+    return draft;
+  } catch {
+    return null;
   }
 }
 
@@ -51,11 +104,31 @@ function parseCalendarOutput(stdout: string): CalendarEvent[] {
   }
 }
 
+function recipientArgs(r: Recipients): string[] {
+  const args = ['--to', r.to.join(',')];
+  if (r.cc?.length) args.push('--cc', r.cc.join(','));
+  if (r.bcc?.length) args.push('--bcc', r.bcc.join(','));
+  return args;
+}
+
 export interface Provider {
   getUnreadEmails(days: number): Promise<EmailItem[]>;
+  // `query` is always compiled by gshield (see email-search.ts), never taken from an agent.
+  searchEmails(query: string): Promise<EmailItem[]>;
+  getMessage(id: string): Promise<EmailItem | null>;
+  // Every message in the thread, oldest first; empty when the thread does not exist.
+  getThread(threadId: string): Promise<EmailItem[]>;
+  // Raw attachment bytes; null when the message or attachment does not exist.
+  getAttachment(messageId: string, attachmentId: string): Promise<Buffer | null>;
   getCalendarEvents(timeMin: string, timeMax: string, calendarIds?: string[]): Promise<CalendarEvent[]>;
-  sendReply(input: { threadId: string; to: string; subject: string; body: string }): Promise<{ id: string }>;
-  sendNew(input: { to: string; subject: string; body: string }): Promise<{ id: string }>;
+  // Label ids are Gmail's (UNREAD, INBOX, user label names); policy has already been applied.
+  modifyMessage(input: { id: string; addLabels: string[]; removeLabels: string[] }): Promise<{ id: string }>;
+  sendReply(input: Recipients & { threadId: string; subject: string; body: string }): Promise<{ id: string }>;
+  sendNew(input: Recipients & { subject: string; body: string }): Promise<{ id: string }>;
+  // Drafts are saved in Gmail and never sent by gshield; a `threadId` makes it a reply draft.
+  createDraft(input: Recipients & { threadId?: string; subject: string; body: string }): Promise<{ id: string }>;
+  getDraft(id: string): Promise<EmailDraft | null>;
+  updateDraft(input: EmailDraft): Promise<{ id: string }>;
   createEvent(input: {
     calendarId: string; summary: string;
     start: string; end: string;
@@ -78,6 +151,32 @@ export class GogProvider implements Provider {
     return parseEmailOutput(stdout);
   }
 
+  async searchEmails(query: string): Promise<EmailItem[]> {
+    const stdout = await execFileAsync('gog', ['gmail', 'search', query, '--account', this.account]);
+    return parseEmailOutput(stdout);
+  }
+
+  async getMessage(id: string): Promise<EmailItem | null> {
+    const stdout = await execFileAsync('gog', ['gmail', 'get', gogId(id), '--account', this.account]);
+    return parseEmailOutput(stdout).find((m) => m.id === id) ?? null;
+  }
+
+  async getThread(threadId: string): Promise<EmailItem[]> {
+    const stdout = await execFileAsync('gog', ['gmail', 'thread', gogId(threadId), '--account', this.account]);
+    return parseEmailOutput(stdout).filter((m) => m.threadId === threadId);
+  }
+
+  async getAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gshield-att-'));
+    const out = path.join(dir, 'attachment');
+    try {
+      await execFileAsync('gog', ['gmail', 'attachment', gogId(messageId), gogId(attachmentId), '--out', out, '--account', this.account]);
+      return fs.existsSync(out) ? fs.readFileSync(out) : null;
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
   async getCalendarEvents(timeMin: string, timeMax: string, calendarIds?: string[]): Promise<CalendarEvent[]> {
     const ids = (calendarIds && calendarIds.length > 0 ? calendarIds : this.calendarIds).filter(Boolean);
     const uniqueIds = [...new Set(ids)];
@@ -88,16 +187,45 @@ export class GogProvider implements Provider {
     return all.flat();
   }
 
-  async sendReply(input: { threadId: string; to: string; subject: string; body: string }): Promise<{ id: string }> {
-    const stdout = await execFileAsync('gog', ['gmail', 'reply', '--thread', input.threadId, '--to', input.to, '--subject', input.subject, '--body', input.body, '--account', this.account]);
+  async modifyMessage(input: { id: string; addLabels: string[]; removeLabels: string[] }): Promise<{ id: string }> {
+    const args = ['gmail', 'modify', gogId(input.id), '--account', this.account];
+    if (input.addLabels.length) args.push('--add-labels', input.addLabels.join(','));
+    if (input.removeLabels.length) args.push('--remove-labels', input.removeLabels.join(','));
+    await execFileAsync('gog', args);
+    return { id: input.id };
+  }
+
+  async sendReply(input: Recipients & { threadId: string; subject: string; body: string }): Promise<{ id: string }> {
+    const args = ['gmail', 'reply', '--thread', input.threadId, ...recipientArgs(input), '--subject', input.subject, '--body', input.body, '--account', this.account];
+    const stdout = await execFileAsync('gog', args);
     return { id: stdout.trim() || `reply-${Date.now()}` };
   }
 
-  async sendNew(input: { to: string; subject: string; body: string }): Promise<{ id: string }> {
-    const stdout = await execFileAsync('gog', ['gmail', 'send', '--to', input.to, '--subject', input.subject, '--body', input.body, '--account', this.account]);
+  async sendNew(input: Recipients & { subject: string; body: string }): Promise<{ id: string }> {
+    const args = ['gmail', 'send', ...recipientArgs(input), '--subject', input.subject, '--body', input.body, '--account', this.account];
+    const stdout = await execFileAsync('gog', args);
     return { id: stdout.trim() || `send-${Date.now()}` };
   }
 
+  async createDraft(input: Recipients & { threadId?: string; subject: string; body: string }): Promise<{ id: string }> {
+    const args = ['gmail', 'drafts', 'create', ...recipientArgs(input), '--subject', input.subject, '--body', input.body, '--account', this.account];
+    if (input.threadId) args.push('--thread', input.threadId);
+    const stdout = await execFileAsync('gog', args);
+    return { id: stdout.trim() || `draft-${Date.now()}` };
+  }
+
+  async getDraft(id: string): Promise<EmailDraft | null> {
+    const stdout = await execFileAsync('gog', ['gmail', 'drafts', 'get', gogId(id), '--json', '--account', this.account]);
+    return parseDraftOutput(stdout);
+  }
+
+  async updateDraft(input: EmailDraft): Promise<{ id: string }> {
+    const args = ['gmail', 'drafts', 'update', gogId(input.id), ...recipientArgs(input), '--subject', input.subject, '--body', input.body, '--account', this.account];
+    if (input.threadId) args.push('--thread', input.threadId);
+    await execFileAsync('gog', args);
+    return { id: input.id };
+  }
+
   async createEvent(input: {
     calendarId: string; summary: string;
     start: string; end: string;
@@ -118,7 +246,7 @@ export class GogProvider implements Provider {
     addAttendees?: string[]; location?: string;
     sendUpdates?: string;
   }): Promise<{ id: string }> {
-    const args = ['calendar', 'update', input.calendarId, input.eventId, '--account', this.account];
+    const args = ['calendar', 'update', input.calendarId, gogId(input.eventId), '--account', this.account];
     if (input.summary) args.push('--summary', input.summary);
     if (input.start) args.push('--from', input.start);
     if (input.end) args.push('--to', input.end);
@@ -133,11 +261,42 @@ export class GogProvider implements Provider {
 }
 
 export class MockProvider implements Provider {
-  constructor(private seed: { emails?: EmailItem[]; events?: CalendarEvent[] } = {}) {}
+  // `attachments` is keyed by `<messageId>/<attachmentId>`.
+  constructor(private seed: { emails?: EmailItem[]; threads?: EmailItem[]; events?: CalendarEvent[]; attachments?: Record<string, Buffer> } = {}) {}
   async getUnreadEmails(_days: number): Promise<EmailItem[]> { return this.seed.emails || []; }
+  readonly searches: string[] = [];
+  async searchEmails(query: string): Promise<EmailItem[]> {
+    this.searches.push(query);
+    return this.seed.emails || [];
+  }
+  async getMessage(id: string): Promise<EmailItem | null> {
+    return [...(this.seed.threads || []), ...(this.seed.emails || [])].find((m) => m.id === id) ?? null;
+  }
+  async getThread(threadId: string): Promise<EmailItem[]> {
+    return [...(this.seed.threads || []), ...(this.seed.emails || [])].filter((m) => m.threadId === threadId);
+  }
+  async getAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    return this.seed.attachments?.[`${messageId}/${attachmentId}`] ?? null;
+  }
   async getCalendarEvents(_timeMin: string, _timeMax: string, _calendarIds?: string[]): Promise<CalendarEvent[]> { return this.seed.events || []; }
-  async sendReply(_input: { threadId: string; to: string; subject: string; body: string }): Promise<{ id: string }> { return { id: 'reply-mock' }; }
-  async sendNew(_input: { to: string; subject: string; body: string }): Promise<{ id: string }> { return { id: 'send-mock' }; }
+  readonly modifications: Array<{ id: string; addLabels: string[]; removeLabels: string[] }> = [];
+  async modifyMessage(input: { id: string; addLabels: string[]; removeLabels: string[] }): Promise<{ id: string }> {
+    this.modifications.push(input);
+    return { id: input.id };
+  }
+  async sendReply(_input: Recipients & { threadId: string; subject: string; body: string }): Promise<{ id: string }> { return { id: 'reply-mock' }; }
+  async sendNew(_input: Recipients & { subject: string; body: string }): Promise<{ id: string }> { return { id: 'send-mock' }; }
+  readonly drafts = new Map<string, EmailDraft>();
+  async createDraft(input: Recipients & { threadId?: string; subject: string; body: string }): Promise<{ id: string }> {
+    const id = `draft-${this.drafts.size + 1}`;
+    this.drafts.set(id, { ...input, id });
+    return { id };
+  }
+  async getDraft(id: string): Promise<EmailDraft | null> { return this.drafts.get(id) ?? null; }
+  async updateDraft(input: EmailDraft): Promise<{ id: string }> {
+    this.drafts.set(input.id, input);
+    return { id: input.id };
+  }
   async createEvent(_input: { calendarId: string; summary: string; start: string; end: string; attendees?: string[]; location?: string; sendUpdates?: string }): Promise<{ id: string }> { return { id: 'event-mock' }; }
   async updateEvent(_input: { calendarId: string; eventId: string; summary?: string; start?: string; end?: string; addAttendees?: string[]; location?: string; sendUpdates?: string }): Promise<{ id: string }> { return { id: _input.eventId || 'update-mock' }; }
 }
@@ -5,10 +5,20 @@ const ensuredDirs = new Set<string>();
 
 type Counter = { hourKey: string; dayKey: string; hourCount: number; dayCount: number };
 
-function paths(kind: 'send' | 'calendar' = 'send') {
-  const envKey = kind === 'calendar' ? 'SECURE_WRAPPER_CALENDAR_RATE' : 'SECURE_WRAPPER_RATE';
-  const defaultFile = kind === 'calendar' ? 'calendar-counters.json' : 'send-counters.json';
-  const file = process.env[envKey] || path.join(process.cwd(), 'logs', defaultFile);
+type Kind = 'send' | 'calendar' | 'mutation' | 'draft';
+
+const FILES: Record<Kind, { envKey: string; defaultFile: string }> = {
+  send: { envKey: 'SECURE_WRAPPER_RATE', defaultFile: 'send-counters.json' },
+  calendar: { envKey: 'SECURE_WRAPPER_CALENDAR_RATE', defaultFile: 'calendar-counters.json' },
+  mutation: { envKey: 'SECURE_WRAPPER_MUTATION_RATE', defaultFile: 'mutation-counters.json' },
+  draft: { envKey: 'SECURE_WRAPPER_DRAFT_RATE', defaultFile: 'draft-counters.json' },
+};
+
+function paths(kind: Kind = 'send', scope?: string) {
+  const { envKey, defaultFile } = FILES[kind];
+  const base = process.env[envKey] || path.join(process.cwd(), 'logs', defaultFile);
+  // Scoped counters (one per agent) live next to the shared file: send-counters.triage.json
+  const file = scope ? base.replace(/(\.json)?$/, `.${scope}$1`) : base;
   return { file, lock: `${file}.lock` };
 }
 
@@ -37,8 +47,8 @@ function save(file: string, c: Counter) {
   fs.writeFileSync(file, JSON.stringify(c, null, 2));
 }
 
-function withLock<T>(kind: 'send' | 'calendar', fn: () => T): T {
-  const p = paths(kind);
+function withLock<T>(kind: Kind, fn: () => T, scope?: string): T {
+  const p = paths(kind, scope);
   ensureDir(p.file);
   for (let i = 0; i < 200; i += 1) {
     try {
@@ -80,34 +90,53 @@ export function recordSend(): void {
   save(p.file, c);
 }
 
-export function consumeSendQuota(maxHour: number, maxDay: number): { ok: boolean; reason?: string } {
-  return withLock('send', () => {
-    const nowKeys = keys();
-    const p = paths('send');
-    const c = load(p.file);
-    if (c.hourKey !== nowKeys.hourKey) { c.hourKey = nowKeys.hourKey; c.hourCount = 0; }
-    if (c.dayKey !== nowKeys.dayKey) { c.dayKey = nowKeys.dayKey; c.dayCount = 0; }
-    if (c.hourCount >= maxHour) return { ok: false, reason: 'hour_limit_exceeded' };
-    if (c.dayCount >= maxDay) return { ok: false, reason: 'day_limit_exceeded' };
-    c.hourCount += 1;
-    c.dayCount += 1;
-    save(p.file, c);
-    return { ok: true };
-  });
+// One counter and its caps. Without a scope it is the shared total for the kind.
+export type QuotaCounter = { scope?: string; maxHour: number; maxDay: number };
+
+function withLocks<T>(kind: Kind, scopes: Array<string | undefined>, fn: () => T): T {
+  if (scopes.length === 0) return fn();
+  return withLock(kind, () => withLocks(kind, scopes.slice(1), fn), scopes[0]);
 }
 
-export function consumeCalendarQuota(maxHour: number, maxDay: number): { ok: boolean; reason?: string } {
-  return withLock('calendar', () => {
+// Every counter must have room before any is used, so a request counts against
+// all of them or none. `amount` lets one request use several units, e.g. one per recipient.
+function consume(kind: Kind, counters: QuotaCounter[], amount = 1): { ok: boolean; reason?: string } {
+  return withLocks(kind, counters.map((q) => q.scope), () => {
     const nowKeys = keys();
-    const p = paths('calendar');
-    const c = load(p.file);
-    if (c.hourKey !== nowKeys.hourKey) { c.hourKey = nowKeys.hourKey; c.hourCount = 0; }
-    if (c.dayKey !== nowKeys.dayKey) { c.dayKey = nowKeys.dayKey; c.dayCount = 0; }
-    if (c.hourCount >= maxHour) return { ok: false, reason: 'hour_limit_exceeded' };
-    if (c.dayCount >= maxDay) return { ok: false, reason: 'day_limit_exceeded' };
-    c.hourCount += 1;
-    c.dayCount += 1;
-    save(p.file, c);
+    const loaded = counters.map((q) => {
+      const file = paths(kind, q.scope).file;
+      const c = load(file);
+      if (c.hourKey !== nowKeys.hourKey) { c.hourKey = nowKeys.hourKey; c.hourCount = 0; }
+      if (c.dayKey !== nowKeys.dayKey) { c.dayKey = nowKeys.dayKey; c.dayCount = 0; }
+      return { q, file, c };
+    });
+    for (const { q, c } of loaded) {
+      if (c.hourCount + amount > q.maxHour) return { ok: false, reason: 'hour_limit_exceeded' };
+      if (c.dayCount + amount > q.maxDay) return { ok: false, reason: 'day_limit_exceeded' };
+    }
+    for (const { file, c } of loaded) {
+      c.hourCount += amount;
+      c.dayCount += amount;
+      save(file, c);
+    }
     return { ok: true };
   });
 }
+
+export function consumeSendQuota(counters: QuotaCounter[], amount = 1): { ok: boolean; reason?: string } {
+  return consume('send', counters, amount);
+}
+
+export function consumeCalendarQuota(counters: QuotaCounter[]): { ok: boolean; reason?: string } {
+  return consume('calendar', counters);
+}
+
+// Message modifications (read state, archive, labels), counted like sends.
+export function consumeMutationQuota(counters: QuotaCounter[]): { ok: boolean; reason?: string } {
+  return consume('mutation', counters);
+}
+
+// Draft creates and updates, counted separately from sends.
+export function consumeDraftQuota(counters: QuotaCounter[]): { ok: boolean; reason?: string } {
+  return consume('draft', counters);
+}
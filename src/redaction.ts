@@ -1,16 +1,94 @@
-const AUTH_PATTERNS = [
-  /\b(one[ -]?time\s*(passcode|password|code)|otp|verification\s*code|security\s*code|login\s*code|2fa|mfa|two[ -]?factor|authentication\s*code)\b/i,
-  /\b(password\s*reset|reset\s*your\s*password|sign[- ]?in\s*attempt|confirm\s*it['’]?s\s*you|approve\s+sign[- ]?in)\b/i,
-  /\b(magic\s*link|verify\s*(your\s*)?email|passkey|device\s*verification|account\s*verification)\b/i
-];
+import { SENSITIVE_RULES, classifySensitive, globalPattern } from './classifier.ts';
+import type { SensitiveRule } from './classifier.ts';
+import type { FieldRedaction, SensitiveCategory } from './types.ts';
+
+const CODE_PATTERN = /\b\d{4,8}\b/g;
+// A code written in groups, like `123 456` or `482-913`. Only runs of 4–8 digits in all count as one code.
+const GROUPED_CODE_PATTERN = /\b\d{1,4}(?:[ .-]\d{1,4}){1,7}\b/g;
+// A letter-and-digit code like `ABC123XY` or `G-482913`; needs a letter and a digit, checked per match.
+const MIXED_CODE_PATTERN = /\b[A-Z0-9][A-Z0-9-]{4,8}[A-Z0-9]\b/gi;
+// Mixed codes look like ordinary references, so they are only masked this close to auth wording.
+const AUTH_NEAR_CHARS = 40;
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const URL_PATTERN = /https?:\/\/\S+/gi;
 
 export function classifyAuthSensitive(text = ''): boolean {
-  return AUTH_PATTERNS.some((p) => p.test(text));
+  return classifySensitive(text).some((m) => m.category === 'auth');
+}
+
+export type CodeSpan = { code: string; start: number; end: number };
+
+// Grouped codes first, with their digits joined; then plain runs outside them. In text order.
+export function codeSpans(text = ''): CodeSpan[] {
+  const spans: CodeSpan[] = [];
+  for (const m of text.matchAll(GROUPED_CODE_PATTERN)) {
+    const code = m[0].replace(/\D/g, '');
+    if (code.length >= 4 && code.length <= 8) spans.push({ code, start: m.index!, end: m.index! + m[0].length });
+  }
+  for (const m of text.matchAll(CODE_PATTERN)) {
+    const start = m.index!;
+    if (!spans.some((s) => start >= s.start && start < s.end)) spans.push({ code: m[0], start, end: start + m[0].length });
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+export function maskCodes(text = ''): string {
+  return codeSpans(text).reduceRight((out, s) => `${out.slice(0, s.start)}[REDACTED_CODE]${out.slice(s.end)}`, text);
+}
+
+function maskMixedCodes(text: string, rules: SensitiveRule[]): string {
+  const near = rules
+    .filter((r) => r.category === 'auth')
+    .flatMap((r) => [...text.matchAll(globalPattern(r))].map((m) => [m.index! - AUTH_NEAR_CHARS, m.index! + m[0].length + AUTH_NEAR_CHARS]));
+  if (near.length === 0) return text;
+  return text.replace(MIXED_CODE_PATTERN, (m, offset: number) => (
+    /\d/.test(m) && /[a-z]/i.test(m) && near.some(([from, to]) => offset + m.length > from && offset < to) ? '[REDACTED_CODE]' : m
+  ));
+}
+
+export function findCodes(text = ''): string[] {
+  return codeSpans(text).map((s) => s.code);
+}
+
+export function maskEmails(text = ''): string {
+  return text.replace(EMAIL_PATTERN, '[REDACTED_EMAIL]');
+}
+
+// With `keepDomain` the agent still sees where a link goes, but not the path or token in it.
+export function maskUrls(text = '', keepDomain = false): string {
+  return text.replace(URL_PATTERN, (u) => {
+    if (!keepDomain) return '[REDACTED_URL]';
+    try {
+      return `[REDACTED_URL:${new URL(u).hostname}]`;
+    } catch {
+      return '[REDACTED_URL]';
+    }
+  });
+}
+
+// Custom patterns run first so the built-in masks cannot break up their matches;
+// URLs go before addresses and codes so links are not masked piecemeal.
+export function redactField(text: string, rules: FieldRedaction): string {
+  let out = text;
+  for (const p of rules.patterns || []) out = out.replace(new RegExp(p, 'gi'), '[REDACTED]');
+  if (rules.urls) out = maskUrls(out, rules.urls === 'domain');
+  if (rules.emails) out = maskEmails(out);
+  if (rules.codes) out = maskCodes(out);
+  return out;
 }
 
 export function redactSecrets(text = ''): string {
-  return text
-    .replace(/\b\d{4,8}\b/g, '[REDACTED_CODE]')
-    .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[REDACTED_EMAIL]')
-    .replace(/https?:\/\/\S+/gi, '[REDACTED_URL]');
+  return redactField(text, { codes: true, emails: true, urls: 'mask' });
+}
+
+// The auth rules match the wording around a code or link, not the secret itself, so
+// redacting auth mail masks codes and links and keeps the wording: the agent learns
+// that a login code arrived without seeing it. Digit codes are masked anywhere,
+// letter-and-digit ones near the wording. Other categories mask what their rules matched.
+export function redactCategory(text: string, category: SensitiveCategory, rules: SensitiveRule[] = SENSITIVE_RULES): string {
+  if (category === 'auth') return maskCodes(maskMixedCodes(maskUrls(text), rules));
+  const marker = `[REDACTED_${category.toUpperCase()}]`;
+  return rules
+    .filter((r) => r.category === category)
+    .reduce((out, r) => out.replace(globalPattern(r), (m) => (!r.validate || r.validate(m) ? marker : m)), text);
 }
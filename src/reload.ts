@@ -0,0 +1,89 @@
+import fs from 'node:fs';
+import { CONFIG_PATH, checkConfigFile } from './config.ts';
+import { logAudit } from './audit.ts';
+import type { ConfigIssue } from './config-schema.ts';
+import type { WrapperConfig } from './types.ts';
+
+// Holder the server reads on every request. Swapping `current` is the whole
+// reload: a request that already took its snapshot finishes on the old config.
+export type LiveConfig = { current: WrapperConfig };
+
+export type ConfigChange = { path: string; before?: unknown; after?: unknown };
+
+export type ReloadResult =
+  | { ok: true; changed: ConfigChange[]; restartRequired: string[] }
+  | { ok: false; errors: ConfigIssue[] };
+
+const SECRET_KEYS = new Set(['apiKey', 'previousApiKey', 'tokenSigningKey', 'previousTokenSigningKey', 'operatorKeyHash', 'keyHash', 'previousKeyHash']);
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function keyedAgents(agents: WrapperConfig['agents']): Record<string, unknown> {
+  return Object.fromEntries((agents || []).map((a) => [a.name, a]));
+}
+
+function diff(before: unknown, after: unknown, at: string, out: ConfigChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const k of new Set([...Object.keys(before), ...Object.keys(after)])) diff(before[k], after[k], `${at}.${k}`, out);
+    return;
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  const leaf = at.slice(at.lastIndexOf('.') + 1);
+  // Secrets are reported as changed without their values.
+  out.push(SECRET_KEYS.has(leaf) ? { path: at } : { path: at, before, after });
+}
+
+export function diffConfig(before: WrapperConfig, after: WrapperConfig): { changed: ConfigChange[]; restartRequired: string[] } {
+  const changed: ConfigChange[] = [];
+  diff(before.policy, after.policy, 'policy', changed);
+  diff(before.auth, after.auth, 'auth', changed);
+  diff(keyedAgents(before.agents), keyedAgents(after.agents), 'agents', changed);
+  const restartRequired = (['server', 'gmail', 'calendar', 'audit'] as const)
+    .filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]));
+  return { changed, restartRequired };
+}
+
+export function reloadLiveConfig(live: LiveConfig, file = CONFIG_PATH): ReloadResult {
+  let checked: ReturnType<typeof checkConfigFile>;
+  try {
+    checked = checkConfigFile(file);
+  } catch (err: any) {
+    return { ok: false, errors: [{ path: '(file)', message: err?.message || String(err) }] };
+  }
+  if (checked.errors.length > 0) return { ok: false, errors: checked.errors };
+  const prev = live.current;
+  // Policy, auth and agents are swapped live. Everything else (listener, Gmail
+  // account, calendar list, audit settings) is bound at startup.
+  const next: WrapperConfig = { ...prev, policy: checked.cfg.policy, auth: checked.cfg.auth, agents: checked.cfg.agents };
+  const { changed, restartRequired } = diffConfig(prev, checked.cfg);
+  live.current = next;
+  return { ok: true, changed, restartRequired };
+}
+
+// Reload plus its audit trail. A rejected config leaves the running one in place.
+export function reloadAndAudit(live: LiveConfig, trigger: 'watch' | 'sighup' | 'manual', file = CONFIG_PATH): ReloadResult {
+  const result = reloadLiveConfig(live, file);
+  if (result.ok) {
+    logAudit({ principal: 'system', action: 'config_reloaded', trigger, changed: result.changed, restartRequired: result.restartRequired });
+  } else {
+    logAudit({ principal: 'system', action: 'config_reload_failed', trigger, errors: result.errors });
+  }
+  return result;
+}
+
+export function watchConfig(live: LiveConfig, file = CONFIG_PATH, onResult: (r: ReloadResult) => void = () => {}): () => void {
+  const run = (trigger: 'watch' | 'sighup') => onResult(reloadAndAudit(live, trigger, file));
+  // Polling survives editors that replace the file by rename, which fs.watch does not.
+  const listener = (cur: fs.Stats, prev: fs.Stats) => {
+    if (cur.mtimeMs !== prev.mtimeMs && cur.nlink > 0) run('watch');
+  };
+  fs.watchFile(file, { interval: 1000 }, listener);
+  const onHup = () => run('sighup');
+  process.on('SIGHUP', onHup);
+  return () => {
+    fs.unwatchFile(file, listener);
+    process.off('SIGHUP', onHup);
+  };
+}
@@ -1,13 +1,29 @@
-import { Hono } from 'hono';
+import crypto from 'node:crypto';
+import { Hono, type MiddlewareHandler } from 'hono';
 import { serve } from '@hono/node-server';
-import { loadConfig } from './config.ts';
-import { authenticate, issueSignedToken, startReplaySweeper } from './auth.ts';
-import { clampCalendarRange, clampEmailDays, allowedRecipient, allowedCalendarForWrite } from './policy.ts';
-import { classifyAuthSensitive } from './redaction.ts';
-import { logAudit } from './audit.ts';
-import { consumeSendQuota, consumeCalendarQuota } from './rate-limit.ts';
-import { GogProvider, MockProvider, type Provider } from './provider.ts';
-import type { WrapperConfig } from './types.ts';
+import { CONFIG_PATH, loadConfig } from './config.ts';
+import { formatIssues } from './config-schema.ts';
+import { authenticate, authenticateOperator, isScope, issueSignedToken, keyScopes, startReplaySweeper } from './auth.ts';
+import { effectiveConfig } from './agents.ts';
+import { DEFAULT_MAX_DRAFTS_PER_DAY, DEFAULT_MAX_DRAFTS_PER_HOUR, DEFAULT_MAX_RECIPIENTS, clampCalendarRange, clampEmailDays, allRecipients, allowedCalendarForWrite, labelChanges, parseRecipients, rejectedRecipients, threadParticipants, withinEmailWindow, type RejectedRecipient } from './policy.ts';
+import { DEFAULT_MAX_BODY_CHARS, processEmails, readScopeReason, resolveContextMode, resolveEnvelope } from './email-pipeline.ts';
+import { DEFAULT_ATTACHMENT_MAX_BYTES, extractAttachmentText, mimeTypeAllowed } from './attachments.ts';
+import { capText } from './html.ts';
+import { assessInjection, envelopeNonce } from './injection.ts';
+import { compileGmailQuery, parseEmailSearch } from './email-search.ts';
+import { issueCursor, readCursor } from './cursors.ts';
+import { scanOutbound } from './dlp.ts';
+import { ownsDraft, recordDraft } from './drafts.ts';
+import { configureAudit, logAudit } from './audit.ts';
+import { parseAuditRequest, readAuditRowsFor, runAuditQuery } from './audit-query.ts';
+import { consumeSendQuota, consumeCalendarQuota, consumeDraftQuota, consumeMutationQuota, type QuotaCounter } from './rate-limit.ts';
+import { claimPending, editPending, enqueuePending, releasePending, sweepPending, type OutboundRequest, type PendingSend } from './approvals.ts';
+import { cancelOutbox, claimDueOutbox, enqueueOutbox, finishOutbox, getOutboxItem, listOutbox, recoverOutbox, type OutboxItem } from './outbox.ts';
+import { reloadAndAudit, watchConfig, type LiveConfig } from './reload.ts';
+import { GogProvider, MockProvider, isProviderId, type Provider } from './provider.ts';
+import type { Scope, WrapperConfig } from './types.ts';
+
+type AppEnv = { Variables: { principal: string; agent?: string; scopes: Scope[]; cfg: WrapperConfig } };
 
 function asErr(c: any, status: number, error: string) { return c.json({ error }, status); }
 const memRate = new Map<string, { bucket: string; count: number }>();
@@ -61,36 +77,170 @@ function audit(c: any, entry: Record<string, unknown> & { action: string }) {
   logAudit({ principal, ...entry });
 }
 
-function stripQuotedReplyText(text = ''): string {
-  if (!text) return '';
-  const lines = text.split(/\r?\n/);
-  const cutPatterns = [
-    /^\s*>+/, // quoted lines
-    /^\s*On\s.+wrote:\s*$/i,
-    /^\s*From:\s.+$/i,
-    /^\s*Sent:\s.+$/i,
-    /^\s*Subject:\s.+$/i,
-    /^\s*To:\s.+$/i,
-    /^\s*-{2,}\s*Original Message\s*-{2,}\s*$/i,
-    /^\s*Begin forwarded message:\s*$/i
-  ];
-  const out: string[] = [];
-  for (const line of lines) {
-    if (cutPatterns.some((p) => p.test(line))) break;
-    out.push(line);
+// With several scopes, any one of them is enough.
+function requireScope(...scopes: Scope[]): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (!scopes.some((s) => c.get('scopes').includes(s))) {
+      audit(c, { action: 'scope_deny', path: c.req.path, method: c.req.method, scope: scopes.join(',') });
+      return asErr(c, 403, 'insufficient_scope');
+    }
+    await next();
+  };
+}
+
+function queueForApproval(c: any, kind: PendingSend['kind'], request: OutboundRequest) {
+  const cfg: WrapperConfig = c.get('cfg');
+  const item = enqueuePending({ kind, principal: c.get('principal') || 'unknown', request, ttlHours: cfg.policy.outbound.approvalTtlHours ?? 24 });
+  audit(c, { action: 'approval_queued', id: item.id, kind, to: request.to, cc: request.cc, bcc: request.bcc, threadId: request.threadId, expiresAt: item.expiresAt });
+  return c.json({ success: true, pending: true, pendingId: item.id, expiresAt: item.expiresAt }, 202);
+}
+
+function queueForOutbox(c: any, kind: OutboxItem['kind'], request: OutboundRequest, delaySeconds: number) {
+  const item = enqueueOutbox({ kind, principal: c.get('principal') || 'unknown', request, delaySeconds });
+  audit(c, { action: 'outbox_queued', id: item.id, kind, to: request.to, cc: request.cc, bcc: request.bcc, threadId: request.threadId, sendAt: item.sendAt });
+  return c.json({ success: true, queued: true, outboxId: item.id, sendAt: item.sendAt }, 202);
+}
+
+function deliver(p: Provider, kind: PendingSend['kind'], r: OutboundRequest): Promise<{ id: string }> {
+  const recipients = { to: r.to, cc: r.cc, bcc: r.bcc };
+  return kind === 'reply'
+    ? p.sendReply({ threadId: r.threadId || '', ...recipients, subject: r.subject, body: r.body })
+    : p.sendNew({ ...recipients, subject: r.subject, body: r.body });
+}
+
+// Body of a send, reply or draft request. Empty `cc` and `bcc` are left out. The
+// thread id reaches gog like a path id does, so it is checked the same way.
+function parseOutbound(body: any, needsThread: boolean): { ok: true; request: OutboundRequest } | { ok: false; error: 'missing_fields' | 'invalid_fields' | 'invalid_id' } {
+  const recipients = parseRecipients(body);
+  if ((needsThread && !body.threadId) || !body.subject || !body.body) return { ok: false, error: 'missing_fields' };
+  if (!recipients || [body.subject, body.body].some((v) => typeof v !== 'string') || (body.threadId !== undefined && typeof body.threadId !== 'string')) return { ok: false, error: 'invalid_fields' };
+  if (recipients.to.length === 0) return { ok: false, error: 'missing_fields' };
+  if (body.threadId && !isProviderId(body.threadId)) return { ok: false, error: 'invalid_id' };
+  const { to, cc, bcc } = recipients;
+  return { ok: true, request: { threadId: body.threadId || undefined, to, ...(cc.length ? { cc } : {}), ...(bcc.length ? { bcc } : {}), subject: body.subject, body: body.body } };
+}
+
+type RecipientDenial = { error: string; rejected?: RejectedRecipient[] };
+
+const refuseRecipients = (c: any, denied: RecipientDenial) => c.json({ error: denied.error, rejected: denied.rejected }, 403);
+
+function parseApprovalEdits(body: any): { ok: true; edits: { subject?: string; body?: string } } | { ok: false } {
+  const edits: { subject?: string; body?: string } = {};
+  for (const key of ['subject', 'body'] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'string' || !body[key]) return { ok: false };
+    edits[key] = body[key];
+  }
+  return { ok: true, edits };
+}
+
+// Delivers every outbox item that is due. Entries are audited under the principal that queued the send.
+// The config is read each round: while the sender's outbound mode is `drafts_only`, its items are held.
+export async function dispatchOutbox(p: Provider, config: WrapperConfig | LiveConfig, now = Date.now()): Promise<OutboxItem[]> {
+  const cfg = 'current' in config ? config.current : config;
+  const held = (item: OutboxItem) => effectiveConfig(cfg, item.principal).policy.outbound.mode === 'drafts_only';
+  const done: OutboxItem[] = [];
+  for (const item of claimDueOutbox(now, held)) {
+    const entry = { principal: item.principal, id: item.id, kind: item.kind, to: item.request.to, cc: item.request.cc, bcc: item.request.bcc, threadId: item.request.threadId };
+    try {
+      const result = await deliver(p, item.kind, item.request);
+      done.push(finishOutbox(item, { resultId: result.id }));
+      logAudit({ ...entry, action: 'outbox_sent', resultId: result.id });
+    } catch (err) {
+      const error = typeof (err as any)?.code === 'string' ? (err as any).code : 'INTERNAL_ERROR';
+      done.push(finishOutbox(item, { error }));
+      logAudit({ ...entry, action: 'outbox_failed', error });
+    }
   }
-  return out.join('\n').trim();
+  return done;
+}
+
+// Fails items a previous process left mid-delivery, then polls for due items. A slow round is never overlapped.
+export function startOutboxWorker(p: Provider, live: LiveConfig, intervalMs = 5_000): NodeJS.Timeout {
+  for (const item of recoverOutbox()) logAudit({ principal: item.principal, action: 'outbox_failed', id: item.id, kind: item.kind, error: item.error });
+  let running = false;
+  return setInterval(() => {
+    if (running) return;
+    running = true;
+    dispatchOutbox(p, live).catch(() => {}).finally(() => { running = false; });
+  }, intervalMs);
 }
 
-function parseCalendarIds(input: string | null | undefined, fallback: string[]): string[] {
-  if (!input) return fallback;
-  const ids = input.split(',').map((x) => x.trim()).filter(Boolean);
-  return ids.length > 0 ? [...new Set(ids)] : fallback;
+function createProvider(cfg: WrapperConfig): Provider {
+  return process.env.SECURE_WRAPPER_USE_MOCK === '1' ? new MockProvider() : new GogProvider(cfg.gmail.account, cfg.calendar.ids);
 }
 
-export function buildApp(cfg: WrapperConfig, provider?: Provider) {
-  const app = new Hono();
-  const p: Provider = provider || (process.env.SECURE_WRAPPER_USE_MOCK === '1' ? new MockProvider() : new GogProvider(cfg.gmail.account, cfg.calendar.ids));
+function parseCalendarIds(input: string | null | undefined, allowed: string[]): string[] {
+  if (!input) return allowed;
+  const ids = input.split(',').map((x) => x.trim()).filter((x) => x && allowed.includes(x));
+  return ids.length > 0 ? [...new Set(ids)] : allowed;
+}
+
+// Accepts a fixed config or a live holder that hot reload swaps; each request reads it once.
+export function buildApp(config: WrapperConfig | LiveConfig, provider?: Provider) {
+  const app = new Hono<AppEnv>();
+  const live: LiveConfig = 'current' in config ? config : { current: config };
+  const startup = live.current;
+  configureAudit(startup.audit ?? {});
+  const p: Provider = provider || createProvider(startup);
+
+  // Recipient policy for sends, queued sends and drafts, applied to every address
+  // in `to`, `cc` and `bcc` on its own. Replies may only go to people already on
+  // the thread, and only on a thread the agent could read: at least one message
+  // inside the window and not withheld by sender or label scope.
+  const checkRecipients = async (c: any, req: OutboundRequest): Promise<RecipientDenial | null> => {
+    const cfg: WrapperConfig = c.get('cfg');
+    const out = cfg.policy.outbound;
+    if (req.bcc?.length && !out.allowBcc) return { error: 'bcc_not_allowed' };
+    if (allRecipients(req).length > (out.maxRecipients ?? DEFAULT_MAX_RECIPIENTS)) return { error: 'too_many_recipients' };
+    let rejected: RejectedRecipient[];
+    if (req.threadId) {
+      const messages = await p.getThread(req.threadId);
+      const readable = messages.some((m) => withinEmailWindow(m.internalDate, cfg.policy.email.maxRecentDays) && !readScopeReason(m, cfg.policy.email));
+      rejected = readable ? rejectedRecipients(req, out, { participants: threadParticipants(messages), skipAllowlist: out.allowReplyToAnyone }) : [];
+      const outcome = !readable ? 'thread_not_readable' : rejected.some((r) => r.reason === 'recipient_not_in_thread') ? 'recipient_not_in_thread' : 'ok';
+      audit(c, { action: 'reply_thread_check', threadId: req.threadId, to: req.to, cc: req.cc, bcc: req.bcc, outcome, messages: messages.length });
+      if (!readable) return { error: 'thread_not_readable' };
+    } else {
+      rejected = rejectedRecipients(req, out);
+    }
+    return rejected.length > 0 ? { error: rejected[0].reason, rejected } : null;
+  };
+
+  // Every quota has a shared total held to the global caps. An agent also has its
+  // own counter held to its effective caps, so adding agents never raises the total.
+  const quotaCounters = (c: any, caps: (cfg: WrapperConfig) => { maxHour: number; maxDay: number }): QuotaCounter[] => {
+    const agent: string | undefined = c.get('agent');
+    return agent ? [caps(live.current), { scope: agent, ...caps(c.get('cfg')) }] : [caps(c.get('cfg'))];
+  };
+
+  const calendarCounters = (c: any) => quotaCounters(c, (cfg) => ({ maxHour: cfg.policy.calendarWrite.maxEventsPerHour, maxDay: cfg.policy.calendarWrite.maxEventsPerDay }));
+
+  // Send caps count messages, or every address when `quotaUnit` is `recipient`.
+  const consumeSend = (c: any, req: OutboundRequest) => {
+    const out = (c.get('cfg') as WrapperConfig).policy.outbound;
+    const counters = quotaCounters(c, (cfg) => ({ maxHour: cfg.policy.outbound.maxSendsPerHour, maxDay: cfg.policy.outbound.maxSendsPerDay }));
+    return consumeSendQuota(counters, out.quotaUnit === 'recipient' ? allRecipients(req).length : 1);
+  };
+
+  // A draft is checked like the send it would become.
+  const checkDraftRecipients = async (c: any, draft: OutboundRequest): Promise<RecipientDenial | null> => {
+    if (!draft.threadId && (c.get('cfg') as WrapperConfig).policy.outbound.replyOnlyDefault) return { error: 'reply_only_mode' };
+    return checkRecipients(c, draft);
+  };
+
+  // Outbound DLP on subject and body, after the recipient checks and before any
+  // quota or provider call. The audit names the rule and field, never the text.
+  // Drafts can't be queued, so a draft that matches is always refused.
+  const scanContent = (c: any, kind: 'reply' | 'new' | 'draft', req: OutboundRequest, id?: string): { outcome: 'blocked' | 'queued'; rules: string[] } | null => {
+    const dlp = (c.get('cfg') as WrapperConfig).policy.outbound.dlp ?? { action: 'block' };
+    if (dlp.action === 'off') return null;
+    const matches = scanOutbound(req, dlp.customPatterns);
+    if (matches.length === 0) return null;
+    const outcome = dlp.action === 'approval' && kind !== 'draft' ? 'queued' : 'blocked';
+    audit(c, { action: 'dlp_match', kind, id, threadId: req.threadId, matches, outcome });
+    return { outcome, rules: [...new Set(matches.map((m) => m.rule))] };
+  };
 
   app.onError((err, c) => {
     const principal = c.get('principal') || 'unknown';
@@ -103,64 +253,74 @@ export function buildApp(cfg: WrapperConfig, provider?: Provider) {
   app.get('/healthz', (c) => c.json({ ok: true, service: 'secure-wrapper-service' }));
 
   app.post('/v1/auth/token', async (c) => {
+    const baseCfg = live.current;
     const apiKey = c.req.header('x-api-key') || c.req.header('x-agent-key');
-    const auth = authenticate(new Headers({ 'x-api-key': apiKey || '' }), cfg);
+    const auth = authenticate(new Headers({ 'x-api-key': apiKey || '' }), baseCfg);
     if (!auth.ok) return asErr(c, 401, 'unauthorized');
 
-    const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
+    const body = await parseJsonLimited(c, baseCfg.server.maxPayloadBytes);
     if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
-    const sub = typeof body.body.sub === 'string' ? body.body.sub : 'agent';
-    return c.json({ token: issueSignedToken(sub, cfg), ttlSeconds: cfg.auth.tokenTtlSeconds });
+    // Registered agents always act under their own name; only the shared key may pick a subject.
+    const sub = auth.agent || (typeof body.body.sub === 'string' ? body.body.sub : 'agent');
+    const allowed = keyScopes(baseCfg, auth.agent);
+    const requested = body.body.scopes ?? allowed;
+    if (!Array.isArray(requested) || !requested.every(isScope)) return asErr(c, 400, 'invalid_scope');
+    const scopes = [...new Set(requested)].filter((s) => allowed.includes(s));
+    if (scopes.length === 0) return asErr(c, 403, 'scope_not_allowed');
+    return c.json({ token: issueSignedToken(sub, baseCfg, auth.agent, scopes), ttlSeconds: baseCfg.auth.tokenTtlSeconds, scopes });
   });
 
   app.use('/v1/*', async (c, next) => {
-    const auth = authenticate(c.req.raw.headers, cfg);
+    const baseCfg = live.current;
+    const auth = authenticate(c.req.raw.headers, baseCfg);
     if (!auth.ok) {
       logAudit({ principal: 'unknown', action: 'auth_deny', path: c.req.path, reason: auth.reason });
       return asErr(c, 401, 'unauthorized');
     }
     const principal = auth.principal || 'unknown';
-    if (!principalRateOk(principal, cfg.server.rateLimitPerMinute)) return asErr(c, 429, 'rate_limited');
+    if (!principalRateOk(principal, baseCfg.server.rateLimitPerMinute)) return asErr(c, 429, 'rate_limited');
     c.set('principal', principal);
+    c.set('agent', auth.agent);
+    c.set('scopes', auth.scopes || []);
+    c.set('cfg', effectiveConfig(baseCfg, auth.agent));
     await next();
   });
 
-  app.get('/v1/email/unread', async (c) => {
+  app.get('/v1/email/unread', requireScope('email:read'), async (c) => {
+    const cfg = c.get('cfg');
     const days = clampEmailDays(c.req.query('days') || null, cfg.policy.email.maxRecentDays);
-    const contextModeQ = c.req.query('contextMode');
-    const contextMode = contextModeQ === 'latest_only' || contextModeQ === 'full_thread'
-      ? contextModeQ
-      : cfg.policy.email.threadContextMode;
+    const contextMode = resolveContextMode(c.req.query('contextMode'), cfg.policy.email);
+    const nonce = resolveEnvelope(c.req.query('envelope'), cfg.policy.email) ? envelopeNonce() : undefined;
+    const principal = c.get('principal');
+    const cursorIn = c.req.query('cursor');
+    const seen = cursorIn ? readCursor(principal, cursorIn) : {};
+    if (!seen) {
+      audit(c, { action: 'email_unread_deny', reason: 'invalid_cursor' });
+      return asErr(c, 400, 'invalid_cursor');
+    }
     const raw = await p.getUnreadEmails(days);
-
-    const transformed = raw.map((m) => {
-      const subject = m.subject || '';
-      const snippet = contextMode === 'latest_only' ? stripQuotedReplyText(m.snippet || '') : (m.snippet || '');
-      const body = contextMode === 'latest_only' ? stripQuotedReplyText(m.body || '') : (m.body || '');
-      const sensitive = classifyAuthSensitive(`${subject}\n${snippet}\n${body}`);
-      return {
-        id: m.id,
-        threadId: m.threadId,
-        from: m.from || '',
-        to: m.to || '',
-        subject,
-        snippet,
-        body,
-        internalDate: m.internalDate || null,
-        sensitivity: sensitive ? 'auth_sensitive' : 'normal' as 'auth_sensitive' | 'normal'
-      };
-    });
-
-    const items = cfg.policy.email.authHandlingMode === 'block'
-      ? transformed.filter((m) => m.sensitivity === 'normal')
-      : transformed;
+    const processed = processEmails(raw, cfg.policy.email, contextMode, { envelopeNonce: nonce });
+    const { blockedCount, withheldCount, withheldReasons, detections, injectionBlockedCount, injectionFlags } = processed;
+    // Anything not handed out before is new, including mail that policy used to hold back.
+    const items = processed.items.filter((m) => !Object.hasOwn(seen, m.id));
+    const fresh = new Set(items.map((m) => m.id));
+    const warnings = processed.warnings?.filter((w) => fresh.has(w.id));
+    const arrived = Object.fromEntries(items.map((m) => [m.id, Number(m.internalDate) || Date.now()]));
+    const cursor = issueCursor(principal, { ...seen, ...arrived }, Date.now() - cfg.policy.email.maxRecentDays * 86_400_000);
 
     audit(c, {
       action: 'email_unread',
       days,
       contextMode,
+      cursor: !!cursorIn,
+      alreadySeenCount: processed.items.length - items.length,
       authHandlingMode: cfg.policy.email.authHandlingMode,
-      blockedCount: transformed.filter((m) => m.sensitivity === 'auth_sensitive').length,
+      blockedCount,
+      withheldCount,
+      withheldReasons,
+      detections,
+      injectionBlockedCount,
+      injectionFlags,
       count: items.length
     });
 
@@ -168,20 +328,148 @@ export function buildApp(cfg: WrapperConfig, provider?: Provider) {
       days,
       contextMode,
       authHandlingMode: cfg.policy.email.authHandlingMode,
+      envelopeNonce: nonce,
+      cursor,
       count: items.length,
       items,
-      warnings: cfg.policy.email.authHandlingMode === 'warn'
-        ? transformed
-            .filter((m) => m.sensitivity === 'auth_sensitive')
-            .map((m) => ({ id: m.id, threadId: m.threadId, wouldBlock: true, reason: 'auth_artifact_detected', category: 'auth_sensitive' }))
-        : undefined
+      warnings: warnings?.length ? warnings : undefined
     });
   });
 
-  app.get('/v1/calendar/events', async (c) => {
+  app.get('/v1/email/search', requireScope('email:read'), async (c) => {
+    const cfg = c.get('cfg');
+    const parsed = parseEmailSearch((name) => c.req.query(name), Object.keys(c.req.queries()));
+    if (!parsed.ok) {
+      audit(c, { action: 'email_search_deny', reason: parsed.error, field: parsed.field });
+      return c.json({ error: parsed.error, field: parsed.field }, 400);
+    }
+    const days = clampEmailDays(c.req.query('days') || null, cfg.policy.email.maxRecentDays);
+    const contextMode = resolveContextMode(c.req.query('contextMode'), cfg.policy.email);
+    const nonce = resolveEnvelope(c.req.query('envelope'), cfg.policy.email) ? envelopeNonce() : undefined;
+    const query = compileGmailQuery(parsed.search, days);
+    const raw = await p.searchEmails(query);
+    const { items, blockedCount, withheldCount, withheldReasons, warnings, detections, injectionBlockedCount, injectionFlags } = processEmails(raw, cfg.policy.email, contextMode, { envelopeNonce: nonce });
+    // The search terms are logged as fields, not as the compiled query, so the privacy policy covers them.
+    const { from, subject, hasAttachment, label, state } = parsed.search;
+    audit(c, { action: 'email_search', from, subject: subject?.join(' '), hasAttachment, label, state, days, contextMode, blockedCount, withheldCount, withheldReasons, detections, injectionBlockedCount, injectionFlags, count: items.length });
+    return c.json({ days, contextMode, authHandlingMode: cfg.policy.email.authHandlingMode, envelopeNonce: nonce, count: items.length, items, warnings });
+  });
+
+  // Out-of-window, withheld and blocked messages are reported as missing, so an id alone reveals nothing.
+  app.get('/v1/email/messages/:id', requireScope('email:read'), async (c) => {
+    const cfg = c.get('cfg');
+    const id = c.req.param('id');
+    if (!isProviderId(id)) return asErr(c, 400, 'invalid_id');
+    const contextMode = resolveContextMode(c.req.query('contextMode'), cfg.policy.email);
+    const nonce = resolveEnvelope(c.req.query('envelope'), cfg.policy.email) ? envelopeNonce() : undefined;
+    const raw = await p.getMessage(id);
+    const inWindow = !!raw && withinEmailWindow(raw.internalDate, cfg.policy.email.maxRecentDays);
+    const { items, blockedCount, withheldReasons, warnings, detections, injectionBlockedCount, injectionFlags } = processEmails(raw && inWindow ? [raw] : [], cfg.policy.email, contextMode, { envelopeNonce: nonce });
+    const withheld = Object.keys(withheldReasons)[0];
+    const outcome = !raw ? 'not_found'
+      : !inWindow ? 'out_of_window'
+        : withheld ? `withheld:${withheld}`
+          : blockedCount > 0 ? 'blocked'
+            : injectionBlockedCount > 0 ? 'injection_blocked' : 'ok';
+    audit(c, { action: 'email_message', id, contextMode, outcome, detections, injectionFlags });
+    if (items.length === 0) return asErr(c, 404, 'not_found');
+    return c.json({ contextMode, authHandlingMode: cfg.policy.email.authHandlingMode, envelopeNonce: nonce, message: items[0], warnings });
+  });
+
+  // The message has to be readable through /v1/email/messages/:id first; auth mail
+  // never releases attachments, even under `warn` or `redact`.
+  app.get('/v1/email/messages/:id/attachments/:attachmentId', requireScope('email:read'), async (c) => {
+    const cfg = c.get('cfg');
+    const messageId = c.req.param('id');
+    const attachmentId = c.req.param('attachmentId');
+    const format = c.req.query('format') || 'base64';
+    if (format !== 'base64' && format !== 'text') return asErr(c, 400, 'invalid_format');
+    const deny = (status: number, reason: string) => {
+      audit(c, { action: 'attachment_deny', messageId, attachmentId, reason });
+      return asErr(c, status, reason);
+    };
+    if (!isProviderId(messageId) || !isProviderId(attachmentId)) return deny(400, 'invalid_id');
+
+    const raw = await p.getMessage(messageId);
+    const inWindow = !!raw && withinEmailWindow(raw.internalDate, cfg.policy.email.maxRecentDays);
+    const { items } = processEmails(raw && inWindow ? [raw] : [], cfg.policy.email, 'full_thread');
+    if (!raw || items.length === 0) return deny(404, 'not_found');
+    if (items[0].categories.includes('auth')) return deny(403, 'attachment_blocked');
+    const meta = items[0].attachments.find((a) => a.id === attachmentId);
+    if (!meta) return deny(404, 'not_found');
+
+    const limits = cfg.policy.email.attachments;
+    if (!mimeTypeAllowed(meta.mimeType, limits?.mimeTypeAllowlist || [])) return deny(403, 'attachment_type_not_allowed');
+    const maxBytes = limits?.maxBytes ?? DEFAULT_ATTACHMENT_MAX_BYTES;
+    if (meta.size > maxBytes) return deny(413, 'attachment_too_large');
+    const data = await p.getAttachment(messageId, attachmentId);
+    if (!data) return deny(404, 'not_found');
+    // The listed size comes from the message; the bytes are what count.
+    if (data.length > maxBytes) return deny(413, 'attachment_too_large');
+
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+    const maxChars = cfg.policy.email.maxBodyChars ?? DEFAULT_MAX_BODY_CHARS;
+    const extracted = format === 'text' ? extractAttachmentText(data, meta.mimeType, maxChars) : null;
+    if (extracted && !extracted.ok) return deny(extracted.error === 'extraction_too_large' ? 413 : 415, extracted.error);
+    const text = extracted?.ok ? extracted.text : null;
+    audit(c, { action: 'attachment_download', messageId, attachmentId, mimeType: meta.mimeType, size: data.length, sha256, format });
+    const base = { messageId, attachmentId, filename: meta.filename, mimeType: meta.mimeType, size: data.length, sha256 };
+    if (text === null) return c.json({ ...base, encoding: 'base64', data: data.toString('base64') });
+    const capped = capText(text, maxChars);
+    const injection = assessInjection(text);
+    return c.json({ ...base, encoding: 'text', text: capped.text, truncated: capped.truncated, injectionRisk: injection.score, injectionReasons: injection.reasons });
+  });
+
+  // Read state, archive and allowlisted labels only; nothing here can trash or
+  // delete. The message has to be readable under the email policy.
+  app.post('/v1/email/messages/:id/modify', requireScope('email:modify'), async (c) => {
+    const cfg = c.get('cfg');
+    const modPol = cfg.policy.emailModify;
+    const id = c.req.param('id');
+    const deny = (status: number, reason: string) => {
+      audit(c, { action: 'email_modify_deny', id, reason });
+      return asErr(c, status, reason);
+    };
+    if (!modPol?.enabled) return deny(403, 'email_modify_disabled');
+    if (!isProviderId(id)) return deny(400, 'invalid_id');
+    const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
+    if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
+    if (!body.body || typeof body.body !== 'object' || Array.isArray(body.body)) return deny(400, 'invalid_fields');
+    const changes = labelChanges(body.body, modPol.labelAllowlist);
+    if (!changes.ok) return deny(changes.error === 'label_not_allowed' ? 403 : 400, changes.error);
+
+    const raw = await p.getMessage(id);
+    const inWindow = !!raw && withinEmailWindow(raw.internalDate, cfg.policy.email.maxRecentDays);
+    const { items } = processEmails(raw && inWindow ? [raw] : [], cfg.policy.email, 'full_thread');
+    if (!raw || items.length === 0) return deny(404, 'not_found');
+    const lim = consumeMutationQuota(quotaCounters(c, (cfg) => ({ maxHour: cfg.policy.emailModify!.maxMutationsPerHour, maxDay: cfg.policy.emailModify!.maxMutationsPerDay })));
+    if (!lim.ok) return deny(429, lim.reason || 'rate_limited');
+    const { addLabels, removeLabels } = changes;
+    await p.modifyMessage({ id, addLabels, removeLabels });
+    audit(c, { action: 'email_modify', id, threadId: raw.threadId, addLabels, removeLabels });
+    return c.json({ success: true, id, addLabels, removeLabels });
+  });
+
+  app.get('/v1/email/threads/:threadId', requireScope('email:read'), async (c) => {
+    const cfg = c.get('cfg');
+    const threadId = c.req.param('threadId');
+    if (!isProviderId(threadId)) return asErr(c, 400, 'invalid_id');
+    const contextMode = resolveContextMode(c.req.query('contextMode'), cfg.policy.email);
+    const nonce = resolveEnvelope(c.req.query('envelope'), cfg.policy.email) ? envelopeNonce() : undefined;
+    const raw = await p.getThread(threadId);
+    const recent = raw.filter((m) => withinEmailWindow(m.internalDate, cfg.policy.email.maxRecentDays));
+    const { items, blockedCount, withheldCount, withheldReasons, warnings, detections, injectionBlockedCount, injectionFlags } = processEmails(recent, cfg.policy.email, contextMode, { envelopeNonce: nonce });
+    audit(c, { action: 'email_thread', threadId, contextMode, outOfWindowCount: raw.length - recent.length, blockedCount, withheldCount, withheldReasons, detections, injectionBlockedCount, injectionFlags, count: items.length });
+    if (items.length === 0) return asErr(c, 404, 'not_found');
+    return c.json({ threadId, contextMode, authHandlingMode: cfg.policy.email.authHandlingMode, envelopeNonce: nonce, count: items.length, items, warnings });
+  });
+
+  app.get('/v1/calendar/events', requireScope('calendar:read'), async (c) => {
+    const cfg = c.get('cfg');
     const range = clampCalendarRange({ start: c.req.query('start'), end: c.req.query('end'), maxPastDays: cfg.policy.calendar.maxPastDays, maxFutureDays: cfg.policy.calendar.maxFutureDays, defaultThisWeek: cfg.policy.calendar.defaultThisWeek });
     const calendarIds = parseCalendarIds(c.req.query('calendars'), cfg.calendar.ids);
-    const raw = await p.getCalendarEvents(range.start.toISOString(), range.end.toISOString(), calendarIds);
+    // An empty list means "all configured calendars" to the provider, which an agent restricted to none must not get.
+    const raw = calendarIds.length > 0 ? await p.getCalendarEvents(range.start.toISOString(), range.end.toISOString(), calendarIds) : [];
     const calPol = cfg.policy.calendar;
     const items = raw.map((e) => ({
       id: e.id,
@@ -207,7 +495,8 @@ export function buildApp(cfg: WrapperConfig, provider?: Provider) {
     return c.json({ start: range.start.toISOString(), end: range.end.toISOString(), calendars: calendarIds, count: items.length, items });
   });
 
-  app.post('/v1/calendar/events', async (c) => {
+  app.post('/v1/calendar/events', requireScope('calendar:write'), async (c) => {
+    const cfg = c.get('cfg');
     const cwPol = cfg.policy.calendarWrite;
     if (!cwPol.enabled) return asErr(c, 403, 'calendar_write_disabled');
     const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
@@ -217,64 +506,266 @@ export function buildApp(cfg: WrapperConfig, provider?: Provider) {
     if (!allowedCalendarForWrite(calendarId, cwPol.allowedCalendarIds, cfg.calendar.ids)) return asErr(c, 403, 'calendar_not_allowed');
     const attendees = cwPol.allowAttendees ? (body.body.attendees || undefined) : undefined;
     const sendUpdates = cwPol.sendUpdates;
-    const lim = consumeCalendarQuota(cwPol.maxEventsPerHour, cwPol.maxEventsPerDay);
+    const lim = consumeCalendarQuota(calendarCounters(c));
     if (!lim.ok) return asErr(c, 429, lim.reason || 'rate_limited');
     const result = await p.createEvent({ calendarId, summary, start, end, attendees, location, sendUpdates });
     audit(c, { action: 'calendar_create', calendarId, summary, id: result.id });
     return c.json({ success: true, id: result.id });
   });
 
-  app.patch('/v1/calendar/events/:id', async (c) => {
+  app.patch('/v1/calendar/events/:id', requireScope('calendar:write'), async (c) => {
+    const cfg = c.get('cfg');
     const cwPol = cfg.policy.calendarWrite;
     if (!cwPol.enabled) return asErr(c, 403, 'calendar_write_disabled');
     const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
     if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
     const eventId = c.req.param('id');
+    if (!isProviderId(eventId)) return asErr(c, 400, 'invalid_id');
     const { calendarId, summary, start, end, location } = body.body;
     if (!calendarId) return asErr(c, 400, 'missing_fields');
     if (!allowedCalendarForWrite(calendarId, cwPol.allowedCalendarIds, cfg.calendar.ids)) return asErr(c, 403, 'calendar_not_allowed');
     const addAttendees = cwPol.allowAttendees ? (body.body.addAttendees || undefined) : undefined;
     const sendUpdates = cwPol.sendUpdates;
-    const lim = consumeCalendarQuota(cwPol.maxEventsPerHour, cwPol.maxEventsPerDay);
+    const lim = consumeCalendarQuota(calendarCounters(c));
     if (!lim.ok) return asErr(c, 429, lim.reason || 'rate_limited');
     const result = await p.updateEvent({ calendarId, eventId, summary, start, end, addAttendees, location, sendUpdates });
     audit(c, { action: 'calendar_update', calendarId, eventId, id: result.id });
     return c.json({ success: true, id: result.id });
   });
 
-  app.post('/v1/email/reply', async (c) => {
+  app.post('/v1/email/reply', requireScope('email:reply'), async (c) => {
+    const cfg = c.get('cfg');
+    if (cfg.policy.outbound.mode === 'drafts_only') return asErr(c, 403, 'drafts_only_mode');
     const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
     if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
-    if (!body.body.threadId || !body.body.to || !body.body.subject || !body.body.body) return asErr(c, 400, 'missing_fields');
-    if (!cfg.policy.outbound.allowReplyToAnyone && !allowedRecipient(body.body.to, cfg.policy.outbound.recipientAllowlist, cfg.policy.outbound.domainAllowlist, cfg.policy.outbound.allowAllRecipients)) return asErr(c, 403, 'recipient_not_allowed');
-    const lim = consumeSendQuota(cfg.policy.outbound.maxSendsPerHour, cfg.policy.outbound.maxSendsPerDay);
+    const parsed = parseOutbound(body.body, true);
+    if (!parsed.ok) return asErr(c, 400, parsed.error);
+    const req = parsed.request;
+    const denied = await checkRecipients(c, req);
+    if (denied) return refuseRecipients(c, denied);
+    const dlp = scanContent(c, 'reply', req);
+    if (dlp?.outcome === 'blocked') return c.json({ error: 'dlp_blocked', rules: dlp.rules }, 403);
+    const lim = consumeSend(c, req);
     if (!lim.ok) return asErr(c, 429, lim.reason || 'rate_limited');
-    const result = await p.sendReply({ threadId: body.body.threadId, to: body.body.to, subject: body.body.subject, body: body.body.body });
-    audit(c, { action: 'send_reply', to: body.body.to, threadId: body.body.threadId, id: result.id });
+    if (cfg.policy.outbound.mode === 'approval' || dlp) return queueForApproval(c, 'reply', req);
+    if (cfg.policy.outbound.sendDelaySeconds) return queueForOutbox(c, 'reply', req, cfg.policy.outbound.sendDelaySeconds);
+    const result = await p.sendReply({ ...req, threadId: req.threadId! });
+    audit(c, { action: 'send_reply', to: req.to, cc: req.cc, bcc: req.bcc, threadId: req.threadId, id: result.id });
     return c.json({ success: true, id: result.id });
   });
 
-  app.post('/v1/email/send', async (c) => {
+  app.post('/v1/email/send', requireScope('email:send'), async (c) => {
+    const cfg = c.get('cfg');
+    if (cfg.policy.outbound.mode === 'drafts_only') return asErr(c, 403, 'drafts_only_mode');
     if (cfg.policy.outbound.replyOnlyDefault) return asErr(c, 403, 'reply_only_mode');
     const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
     if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
-    if (!body.body.to || !body.body.subject || !body.body.body) return asErr(c, 400, 'missing_fields');
-    if (!allowedRecipient(body.body.to, cfg.policy.outbound.recipientAllowlist, cfg.policy.outbound.domainAllowlist, cfg.policy.outbound.allowAllRecipients)) return asErr(c, 403, 'recipient_not_allowed');
-    const lim = consumeSendQuota(cfg.policy.outbound.maxSendsPerHour, cfg.policy.outbound.maxSendsPerDay);
+    const parsed = parseOutbound(body.body, false);
+    if (!parsed.ok) return asErr(c, 400, parsed.error);
+    const req = { ...parsed.request, threadId: undefined };
+    const denied = await checkRecipients(c, req);
+    if (denied) return refuseRecipients(c, denied);
+    const dlp = scanContent(c, 'new', req);
+    if (dlp?.outcome === 'blocked') return c.json({ error: 'dlp_blocked', rules: dlp.rules }, 403);
+    const lim = consumeSend(c, req);
     if (!lim.ok) return asErr(c, 429, lim.reason || 'rate_limited');
-    const result = await p.sendNew({ to: body.body.to, subject: body.body.subject, body: body.body.body });
-    audit(c, { action: 'send_new', to: body.body.to, id: result.id });
+    if (cfg.policy.outbound.mode === 'approval' || dlp) return queueForApproval(c, 'new', req);
+    if (cfg.policy.outbound.sendDelaySeconds) return queueForOutbox(c, 'new', req, cfg.policy.outbound.sendDelaySeconds);
+    const result = await p.sendNew(req);
+    audit(c, { action: 'send_new', to: req.to, cc: req.cc, bcc: req.bcc, id: result.id });
+    return c.json({ success: true, id: result.id });
+  });
+
+  // Principals see and cancel only their own outbox items; anyone else's is `404`.
+  const ownOutboxItem = (c: any) => {
+    const item = getOutboxItem(c.req.param('id'));
+    return item && item.principal === c.get('principal') ? item : null;
+  };
+
+  app.get('/v1/email/outbox/:id', requireScope('email:reply', 'email:send'), (c) => {
+    const item = ownOutboxItem(c);
+    return item ? c.json({ item }) : asErr(c, 404, 'not_found');
+  });
+
+  app.delete('/v1/email/outbox/:id', requireScope('email:reply', 'email:send'), (c) => {
+    if (!ownOutboxItem(c)) return asErr(c, 404, 'not_found');
+    const result = cancelOutbox(c.req.param('id'));
+    if (!result.ok) return result.item ? c.json({ error: 'not_cancellable', status: result.item.status }, 409) : asErr(c, 404, 'not_found');
+    audit(c, { action: 'outbox_cancelled', id: result.item.id, kind: result.item.kind });
+    return c.json({ success: true, item: result.item });
+  });
+
+  // Drafts are allowed in every outbound mode, including `drafts_only`, and have their own quota.
+  const draftDeny = (c: any, status: number, reason: string, id?: string, extra?: { rejected?: RejectedRecipient[]; rules?: string[] }) => {
+    audit(c, { action: 'draft_deny', id, reason });
+    return c.json({ error: reason, ...extra }, status);
+  };
+  const consumeDraft = (c: any) => {
+    return consumeDraftQuota(quotaCounters(c, (cfg) => ({ maxHour: cfg.policy.outbound.maxDraftsPerHour ?? DEFAULT_MAX_DRAFTS_PER_HOUR, maxDay: cfg.policy.outbound.maxDraftsPerDay ?? DEFAULT_MAX_DRAFTS_PER_DAY })));
+  };
+
+  app.post('/v1/email/drafts', requireScope('email:draft'), async (c) => {
+    const cfg = c.get('cfg');
+    const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
+    if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
+    const parsed = parseOutbound(body.body, false);
+    if (!parsed.ok) return asErr(c, 400, parsed.error);
+    const draft = parsed.request;
+    const denied = await checkDraftRecipients(c, draft);
+    if (denied) return draftDeny(c, 403, denied.error, undefined, { rejected: denied.rejected });
+    const dlp = scanContent(c, 'draft', draft);
+    if (dlp) return draftDeny(c, 403, 'dlp_blocked', undefined, { rules: dlp.rules });
+    const lim = consumeDraft(c);
+    if (!lim.ok) return draftDeny(c, 429, lim.reason || 'rate_limited');
+    const result = await p.createDraft(draft);
+    recordDraft(c.get('principal'), result.id);
+    audit(c, { action: 'draft_create', kind: draft.threadId ? 'reply' : 'new', to: draft.to, cc: draft.cc, bcc: draft.bcc, threadId: draft.threadId, id: result.id });
+    return c.json({ success: true, id: result.id });
+  });
+
+  // Only drafts the principal created here can be edited. The draft's thread stays
+  // fixed; the result is checked as a whole, so an edit can't leave a draft
+  // addressed to someone the policy would refuse.
+  app.patch('/v1/email/drafts/:id', requireScope('email:draft'), async (c) => {
+    const cfg = c.get('cfg');
+    const id = c.req.param('id');
+    if (!isProviderId(id)) return draftDeny(c, 400, 'invalid_id', id);
+    const body = await parseJsonLimited(c, cfg.server.maxPayloadBytes);
+    if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
+    const fields = Object.keys(body.body || {});
+    if (fields.length === 0) return asErr(c, 400, 'missing_fields');
+    if (fields.some((f) => !['to', 'cc', 'bcc', 'subject', 'body'].includes(f))) return asErr(c, 400, 'invalid_fields');
+    if (['subject', 'body'].some((f) => f in body.body && (typeof body.body[f] !== 'string' || !body.body[f]))) return asErr(c, 400, 'invalid_fields');
+    const recipients = parseRecipients(body.body);
+    if (!recipients || ('to' in body.body && recipients.to.length === 0)) return asErr(c, 400, 'invalid_fields');
+    // Drafts this principal did not create through gshield look the same as missing ones.
+    const existing = ownsDraft(c.get('principal'), id) ? await p.getDraft(id) : null;
+    if (!existing) return draftDeny(c, 404, 'not_found', id);
+    const draft = { ...existing, id };
+    for (const f of fields) {
+      if (f === 'subject' || f === 'body') draft[f] = body.body[f];
+      else draft[f as 'to' | 'cc' | 'bcc'] = recipients[f as 'to' | 'cc' | 'bcc'];
+    }
+    const denied = await checkDraftRecipients(c, draft);
+    if (denied) return draftDeny(c, 403, denied.error, id, { rejected: denied.rejected });
+    const dlp = scanContent(c, 'draft', draft, id);
+    if (dlp) return draftDeny(c, 403, 'dlp_blocked', id, { rules: dlp.rules });
+    const lim = consumeDraft(c);
+    if (!lim.ok) return draftDeny(c, 429, lim.reason || 'rate_limited', id);
+    await p.updateDraft(draft);
+    audit(c, { action: 'draft_update', id, to: draft.to, cc: draft.cc, bcc: draft.bcc, threadId: draft.threadId, fields });
+    return c.json({ success: true, id });
+  });
+
+  // Operator-only surface. Agent keys and tokens never reach it.
+  app.use('/admin/*', async (c, next) => {
+    const baseCfg = live.current;
+    if (!authenticateOperator(c.req.raw.headers, baseCfg)) {
+      logAudit({ principal: 'unknown', action: 'auth_deny', path: c.req.path, reason: 'operator_key_required' });
+      return asErr(c, 401, 'unauthorized');
+    }
+    c.set('principal', 'operator');
+    c.set('cfg', baseCfg);
+    await next();
+  });
+
+  const sweepApprovals = (c: any) => {
+    const { items, expired } = sweepPending();
+    for (const item of expired) audit(c, { action: 'approval_expired', id: item.id, kind: item.kind, requestedBy: item.principal, to: item.request.to });
+    return items;
+  };
+
+  app.get('/admin/approvals', (c) => {
+    const items = sweepApprovals(c);
+    return c.json({ count: items.length, items });
+  });
+
+  app.patch('/admin/approvals/:id', async (c) => {
+    sweepApprovals(c);
+    const body = await parseJsonLimited(c, c.get('cfg').server.maxPayloadBytes);
+    if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
+    const parsed = parseApprovalEdits(body.body);
+    if (!parsed.ok) return asErr(c, 400, 'invalid_fields');
+    const item = editPending(c.req.param('id'), parsed.edits);
+    if (!item) return asErr(c, 404, 'not_found');
+    audit(c, { action: 'approval_edited', id: item.id, requestedBy: item.principal, fields: Object.keys(parsed.edits) });
+    return c.json({ success: true, item });
+  });
+
+  app.post('/admin/approvals/:id/approve', async (c) => {
+    sweepApprovals(c);
+    const body = await parseJsonLimited(c, c.get('cfg').server.maxPayloadBytes);
+    if (!body.ok) return asErr(c, body.error === 'payload_too_large' ? 413 : 400, body.error);
+    const parsed = parseApprovalEdits(body.body);
+    if (!parsed.ok) return asErr(c, 400, 'invalid_fields');
+    const item = claimPending(c.req.param('id'));
+    if (!item) return asErr(c, 404, 'not_found');
+    Object.assign(item.request, parsed.edits);
+    let result: { id: string };
+    try {
+      result = await deliver(p, item.kind, item.request);
+    } catch (err) {
+      releasePending(item);
+      audit(c, { action: 'approval_failed', id: item.id, kind: item.kind, requestedBy: item.principal });
+      throw err;
+    }
+    audit(c, { action: 'approval_approved', id: item.id, kind: item.kind, requestedBy: item.principal, to: item.request.to, cc: item.request.cc, bcc: item.request.bcc, threadId: item.request.threadId, edited: Object.keys(parsed.edits).length > 0, resultId: result.id });
     return c.json({ success: true, id: result.id });
   });
 
+  app.post('/admin/approvals/:id/reject', async (c) => {
+    sweepApprovals(c);
+    const item = claimPending(c.req.param('id'));
+    if (!item) return asErr(c, 404, 'not_found');
+    audit(c, { action: 'approval_rejected', id: item.id, kind: item.kind, requestedBy: item.principal, to: item.request.to });
+    return c.json({ success: true });
+  });
+
+  app.get('/admin/outbox', (c) => {
+    const items = listOutbox();
+    return c.json({ count: items.length, items });
+  });
+
+  app.delete('/admin/outbox/:id', (c) => {
+    const result = cancelOutbox(c.req.param('id'));
+    if (!result.ok) return result.item ? c.json({ error: 'not_cancellable', status: result.item.status }, 409) : asErr(c, 404, 'not_found');
+    audit(c, { action: 'outbox_cancelled', id: result.item.id, kind: result.item.kind, requestedBy: result.item.principal });
+    return c.json({ success: true, item: result.item });
+  });
+
+  app.get('/admin/audit', async (c) => {
+    const parsed = parseAuditRequest((name) => c.req.query(name), 'json');
+    if (!parsed.ok) return asErr(c, 400, parsed.error);
+    const result = runAuditQuery(parsed.req, await readAuditRowsFor(parsed.req));
+    audit(c, { action: 'audit_query', filter: parsed.req.filter, summary: parsed.req.summary, total: result.total });
+    if (parsed.req.format === 'json') return c.json(result.json);
+    c.header('x-total-count', String(result.total));
+    if (result.nextOffset !== null) c.header('x-next-offset', String(result.nextOffset));
+    return c.text(result.text, 200, { 'content-type': parsed.req.format === 'jsonl' ? 'application/x-ndjson' : 'text/plain; charset=utf-8' });
+  });
+
+  app.post('/admin/config/reload', (c) => {
+    const result = reloadAndAudit(live, 'manual');
+    if (!result.ok) return c.json({ success: false, error: 'invalid_config', errors: result.errors }, 422);
+    return c.json({ success: true, changed: result.changed, restartRequired: result.restartRequired });
+  });
+
   app.all('*', (c) => asErr(c, 404, 'deny-by-default'));
   return app;
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
   const cfg = loadConfig();
-  const app = buildApp(cfg);
+  const live: LiveConfig = { current: cfg };
+  const provider = createProvider(cfg);
+  const app = buildApp(live, provider);
+  // Policy, auth and agents follow config edits and SIGHUP; listener and account changes need a restart.
+  watchConfig(live, CONFIG_PATH, (r) => {
+    if (r.ok) console.log(`config reloaded (${r.changed.length} change(s))${r.restartRequired.length ? `; restart to apply ${r.restartRequired.join(', ')}` : ''}`);
+    else console.error(`config reload rejected, keeping previous config:\n${formatIssues(r.errors)}`);
+  });
   const replaySweeper = startReplaySweeper();
   replaySweeper.unref?.();
+  startOutboxWorker(provider, live).unref?.();
   serve({ fetch: app.fetch, port: cfg.server.port, hostname: cfg.server.bind }, () => console.log(`secure-wrapper-service listening on ${cfg.server.bind}:${cfg.server.port}`));
 }
@@ -1,4 +1,5 @@
 import { randomKey, writeConfig } from './config.ts';
+import { hashApiKey, isValidAgentName } from './agents.ts';
 import type { WrapperConfig } from './types.ts';
 
 function arg(name: string, fallback: string | null = null): string | null {
@@ -13,12 +14,16 @@ const calendarId = arg('--calendar-id', 'primary')!;
 const calendarIds = (calendarIdsArg ? calendarIdsArg.split(',').map((x) => x.trim()).filter(Boolean) : [calendarId]);
 const port = Number(arg('--port', '8787'));
 const bind = arg('--bind', '127.0.0.1')!;
+const agentNames = (arg('--agents', '') || '').split(',').map((x) => x.trim()).filter(Boolean);
 
-if (!gmailAccount) {
-  console.error('Usage: npm run setup -- --gmail-account <account> [--calendar-id primary] [--calendar-ids primary,work,team] [--port 8787] [--bind 127.0.0.1]');
+if (!gmailAccount || agentNames.some((n) => !isValidAgentName(n))) {
+  console.error('Usage: npm run setup -- --gmail-account <account> [--calendar-id primary] [--calendar-ids primary,work,team] [--port 8787] [--bind 127.0.0.1] [--agents triage,scheduler]');
   process.exit(1);
 }
 
+const agentKeys = agentNames.map((name) => ({ name, key: randomKey(24) }));
+const operatorKey = randomKey(24);
+
 const cfg: WrapperConfig = {
   server: {
     port,
@@ -30,7 +35,8 @@ const cfg: WrapperConfig = {
     apiKey: randomKey(24),
     tokenSigningKey: randomKey(32),
     previousTokenSigningKey: '',
-    tokenTtlSeconds: 120
+    tokenTtlSeconds: 120,
+    operatorKeyHash: hashApiKey(operatorKey)
   },
   gmail: { account: gmailAccount },
   calendar: { ids: calendarIds },
@@ -38,7 +44,8 @@ const cfg: WrapperConfig = {
     email: {
       maxRecentDays: 2,
       authHandlingMode: 'block',
-      threadContextMode: 'full_thread'
+      threadContextMode: 'full_thread',
+      maxBodyChars: 20_000
     },
     calendar: {
       defaultThisWeek: true,
@@ -56,6 +63,12 @@ const cfg: WrapperConfig = {
       maxEventsPerHour: 10,
       maxEventsPerDay: 50,
     },
+    emailModify: {
+      enabled: false,
+      labelAllowlist: [],
+      maxMutationsPerHour: 30,
+      maxMutationsPerDay: 200,
+    },
     outbound: {
       replyOnlyDefault: true,
       allowAllRecipients: false,
@@ -63,12 +76,27 @@ const cfg: WrapperConfig = {
       recipientAllowlist: [],
       domainAllowlist: [],
       maxSendsPerHour: 5,
-      maxSendsPerDay: 25
+      maxSendsPerDay: 25,
+      mode: 'direct',
+      approvalTtlHours: 24,
+      sendDelaySeconds: 0,
+      dlp: { action: 'block', customPatterns: [] }
     }
+  },
+  agents: agentKeys.map(({ name, key }) => ({ name, keyHash: hashApiKey(key) })),
+  audit: {
+    hmacKey: randomKey(32),
+    hashKey: randomKey(32),
+    rotateMaxBytes: 10 * 1024 * 1024,
+    rotateDaily: false,
+    retentionDays: 90,
+    privacy: { to: 'hash', cc: 'hash', bcc: 'hash', from: 'hash', subject: 'hash', summary: 'hash', recipient: 'hash' }
   }
 };
 
 writeConfig(cfg);
 console.log('✅ Setup complete: config/wrapper-config.json');
 console.log('API key (store in secret manager):', cfg.auth.apiKey);
+console.log('Operator key for /admin endpoints (shown once, keep it away from agents):', operatorKey);
+for (const { name, key } of agentKeys) console.log(`Agent key for ${name} (shown once, only its hash is stored):`, key);
 console.log('Token signing key stored only in local config file with 0600 perms.');
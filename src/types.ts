@@ -7,17 +7,36 @@ export type WrapperConfig = {
   };
   auth: {
     apiKey: string;
+    previousApiKey?: string;
+    previousApiKeyExpiresAt?: string;
     tokenSigningKey: string;
     previousTokenSigningKey?: string;
     tokenTtlSeconds: number;
+    operatorKeyHash?: string;
   };
   gmail: { account: string };
   calendar: { ids: string[] };
   policy: {
     email: {
       maxRecentDays: number;
-      authHandlingMode: 'block' | 'warn';
+      authHandlingMode: 'block' | 'warn' | 'redact';
       threadContextMode: 'full_thread' | 'latest_only';
+      senderDenylist?: string[];
+      senderDomainDenylist?: string[];
+      senderAllowlist?: string[];
+      senderDomainAllowlist?: string[];
+      labelInclude?: string[];
+      labelExclude?: string[];
+      categoryActions?: Partial<Record<SensitiveCategory, SensitiveAction>>;
+      redaction?: Partial<Record<RedactionField, FieldRedaction>>;
+      injectionHandlingMode?: 'block' | 'warn';
+      injectionBlockThreshold?: number;
+      untrustedEnvelope?: boolean;
+      maxBodyChars?: number;
+      attachments?: {
+        mimeTypeAllowlist: string[];
+        maxBytes: number;
+      };
     };
     calendar: {
       defaultThisWeek: boolean;
@@ -35,6 +54,13 @@ export type WrapperConfig = {
       maxEventsPerHour: number;
       maxEventsPerDay: number;
     };
+    // Absent means modify is off.
+    emailModify?: {
+      enabled: boolean;
+      labelAllowlist: string[];
+      maxMutationsPerHour: number;
+      maxMutationsPerDay: number;
+    };
     outbound: {
       replyOnlyDefault: boolean;
       allowAllRecipients: boolean;
@@ -43,8 +69,64 @@ export type WrapperConfig = {
       domainAllowlist: string[];
       maxSendsPerHour: number;
       maxSendsPerDay: number;
+      mode?: 'direct' | 'approval' | 'drafts_only';
+      approvalTtlHours?: number;
+      maxDraftsPerHour?: number;
+      maxDraftsPerDay?: number;
+      maxRecipients?: number;
+      allowBcc?: boolean;
+      quotaUnit?: 'message' | 'recipient';
+      sendDelaySeconds?: number;
+      dlp?: { action: 'block' | 'approval' | 'off'; customPatterns?: string[] };
     };
   };
+  agents?: AgentConfig[];
+  audit?: {
+    hmacKey?: string;
+    hashKey?: string;
+    rotateMaxBytes?: number;
+    rotateDaily?: boolean;
+    retentionDays?: number;
+    privacy?: Record<string, AuditFieldMode>;
+  };
+};
+
+export type PolicyConfig = WrapperConfig['policy'];
+
+export type AuditFieldMode = 'clear' | 'hash' | 'omit';
+
+export type SensitiveCategory = 'auth' | 'financial' | 'medical' | 'legal' | 'personal_id';
+
+export type SensitiveAction = 'block' | 'warn' | 'redact' | 'allow';
+
+export type RedactionField = 'subject' | 'snippet' | 'body' | 'from' | 'to';
+
+// `patterns` are user-defined regular expressions, matched case-insensitively.
+export type FieldRedaction = {
+  codes?: boolean;
+  urls?: 'mask' | 'domain';
+  emails?: boolean;
+  patterns?: string[];
+};
+
+export type PolicyOverrides = {
+  email?: Partial<PolicyConfig['email']>;
+  calendar?: Partial<PolicyConfig['calendar']>;
+  calendarWrite?: Partial<PolicyConfig['calendarWrite']>;
+  emailModify?: Partial<NonNullable<PolicyConfig['emailModify']>>;
+  outbound?: Partial<PolicyConfig['outbound']>;
+};
+
+export type Scope = 'email:read' | 'email:reply' | 'email:send' | 'email:draft' | 'email:modify' | 'calendar:read' | 'calendar:write';
+
+export type AgentConfig = {
+  name: string;
+  keyHash: string;
+  previousKeyHash?: string;
+  previousKeyExpiresAt?: string;
+  scopes?: Scope[];
+  calendarIds?: string[];
+  policy?: PolicyOverrides;
 };
 
 export type EmailItem = {
@@ -52,10 +134,35 @@ export type EmailItem = {
   threadId: string;
   from?: string;
   to?: string;
+  cc?: string;
+  labels?: string[];
   subject?: string;
   snippet?: string;
   body?: string;
   internalDate?: string;
+  attachments?: EmailAttachment[];
+};
+
+export type EmailAttachment = {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+};
+
+// Bare addresses. `cc` and `bcc` are omitted or empty when unused.
+export type Recipients = {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+};
+
+// A Gmail draft as gshield sees it. Reply drafts carry the thread they answer.
+export type EmailDraft = Recipients & {
+  id: string;
+  threadId?: string;
+  subject: string;
+  body: string;
 };
 
 export type CalendarEvent = {
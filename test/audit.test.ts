@@ -0,0 +1,163 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { configureAudit, listAuditArchives, logAudit, verifyAuditChain } from '../src/audit.ts';
+import { auditFilesSince, parseAuditRequest, queryAudit, readAuditRows, summarizeAudit } from '../src/audit-query.ts';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gshield-chain-'));
+
+function freshLog(name: string): string {
+  const file = path.join(dir, `${name}.jsonl`);
+  process.env.SECURE_WRAPPER_AUDIT = file;
+  return file;
+}
+
+test('entries are sequenced, hash-chained and verify cleanly', () => {
+  configureAudit({});
+  const file = freshLog('clean');
+  for (let i = 0; i < 3; i += 1) logAudit({ principal: 'p', action: 'email_unread', count: i });
+  const rows = fs.readFileSync(file, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+  assert.deepEqual(rows.map((r) => r.seq), [1, 2, 3]);
+  assert.equal(rows[1].prev, rows[0].hash);
+  const out = verifyAuditChain([file], { headFile: `${file}.head` });
+  assert.equal(out.ok, true);
+  assert.equal(out.entries, 3);
+});
+
+test('verify reports edits, gaps and truncation', () => {
+  configureAudit({});
+  const file = freshLog('tamper');
+  for (let i = 0; i < 4; i += 1) logAudit({ principal: 'p', action: 'send_reply', to: `r${i}@example.com` });
+  const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+
+  const edited = path.join(dir, 'edited.jsonl');
+  fs.writeFileSync(edited, [lines[0], lines[1].replace('r1@', 'zz@'), lines[2], lines[3]].join('\n') + '\n');
+  assert.equal(verifyAuditChain([edited]).problem?.kind, 'bad_hash');
+
+  const gapped = path.join(dir, 'gapped.jsonl');
+  fs.writeFileSync(gapped, [lines[0], lines[2], lines[3]].join('\n') + '\n');
+  const gap = verifyAuditChain([gapped]);
+  assert.equal(gap.problem?.kind, 'gap');
+  assert.equal(gap.problem?.line, 2);
+
+  const cut = path.join(dir, 'cut.jsonl');
+  fs.writeFileSync(cut, [lines[0], lines[1]].join('\n') + '\n');
+  assert.equal(verifyAuditChain([cut], { headFile: `${file}.head` }).problem?.kind, 'truncated');
+  fs.writeFileSync(cut, lines[0] + '\n' + lines[1].slice(0, 20));
+  assert.equal(verifyAuditChain([cut]).problem?.kind, 'truncated');
+});
+
+test('hmac signatures are checked when a key is given', () => {
+  configureAudit({ hmacKey: 'audit-secret' });
+  const file = freshLog('signed');
+  logAudit({ principal: 'p', action: 'email_unread' });
+  configureAudit({});
+  assert.equal(verifyAuditChain([file], { hmacKey: 'audit-secret' }).ok, true);
+  assert.equal(verifyAuditChain([file], { hmacKey: 'other' }).problem?.kind, 'bad_signature');
+});
+
+test('chain continues across restarts and rotation', () => {
+  configureAudit({});
+  const file = freshLog('rotating');
+  logAudit({ principal: 'p', action: 'a' });
+  logAudit({ principal: 'p', action: 'b' });
+  fs.renameSync(file, `${file}.1`);
+  logAudit({ principal: 'p', action: 'c' });
+
+  // Point the logger elsewhere and back, which forces it to reload the chain head from disk.
+  freshLog('elsewhere');
+  logAudit({ principal: 'p', action: 'x' });
+  process.env.SECURE_WRAPPER_AUDIT = file;
+  logAudit({ principal: 'p', action: 'd' });
+
+  const out = verifyAuditChain([`${file}.1`, file], { headFile: `${file}.head` });
+  assert.equal(out.ok, true);
+  assert.equal(out.lastSeq, 4);
+});
+
+test('audit query filters, paginates and summarizes', async () => {
+  configureAudit({});
+  const file = freshLog('query');
+  logAudit({ principal: 'triage', action: 'send_reply', to: 'Alice@example.com' });
+  logAudit({ principal: 'triage', action: 'send_reply', to: 'bob@example.com' });
+  logAudit({ principal: 'unknown', action: 'auth_deny', path: '/v1/email/send', reason: 'invalid_token' });
+  logAudit({ principal: 'drafter', action: 'send_new', to: 'alice@example.com' });
+  const rows = await readAuditRows([file]);
+
+  assert.equal(queryAudit(rows, { recipient: 'alice@example.com' }).total, 2);
+  assert.equal(queryAudit(rows, { reason: 'invalid_token', path: '/v1/email' }).items[0].action, 'auth_deny');
+  const page = queryAudit(rows, { actions: ['send_reply', 'send_new'] }, { limit: 2 });
+  assert.equal(page.items.length, 2);
+  assert.equal(page.nextOffset, 2);
+
+  const summary = summarizeAudit(rows, { actions: ['send_reply', 'send_new'] }, 'day');
+  assert.deepEqual(summary.map((r) => [r.principal, r.action, r.count]), [['drafter', 'send_new', 1], ['triage', 'send_reply', 2]]);
+
+  const bad = parseAuditRequest((k) => ({ since: 'yesterday-ish' } as Record<string, string>)[k], 'json');
+  assert.equal(bad.ok, false);
+});
+
+test('rotation archives compressed files that still verify as one chain', async () => {
+  configureAudit({ rotateMaxBytes: 600 });
+  const file = freshLog('rotate-size');
+  for (let i = 0; i < 12; i += 1) logAudit({ principal: 'p', action: 'email_unread', count: i });
+  configureAudit({});
+  const archives = listAuditArchives(file);
+  assert.ok(archives.length >= 2);
+  assert.ok(archives.every((a) => a.endsWith('.jsonl.gz')));
+  const first = JSON.parse(fs.readFileSync(file, 'utf8').split('\n')[0]);
+  assert.equal(first.action, 'audit_rotated');
+  const out = verifyAuditChain([...archives, file], { headFile: `${file}.head` });
+  assert.equal(out.ok, true);
+  assert.equal(out.firstSeq, 1);
+  assert.equal((await readAuditRows([...archives, file])).filter((r) => r.action === 'email_unread').length, 12);
+});
+
+test('queries skip archives rotated before since and keep only matching rows', async () => {
+  configureAudit({});
+  const file = freshLog('since');
+  logAudit({ principal: 'p', action: 'email_unread' });
+  logAudit({ principal: 'q', action: 'email_unread' });
+  const old = path.join(dir, 'since-20200101T000000000Z-000000000001.jsonl.gz');
+  const recent = path.join(dir, 'since-20300101T000000000Z-000000000002.jsonl.gz');
+  fs.writeFileSync(old, 'not gzip');
+  fs.writeFileSync(recent, zlib.gzipSync(JSON.stringify({ ts: '2029-12-31T00:00:00.000Z', action: 'email_unread', principal: 'p' }) + '\n'));
+  assert.deepEqual(auditFilesSince('2025-01-01T00:00:00.000Z'), [recent, file]);
+  assert.deepEqual(auditFilesSince(), [old, recent, file]);
+  // An archive that fails to decompress is skipped like a damaged line.
+  const rows = await readAuditRows(auditFilesSince(), { principal: 'p' });
+  assert.deepEqual(rows.map((r) => r.principal), ['p', 'p']);
+});
+
+test('retention removes archives older than the configured days', async () => {
+  const file = freshLog('retention');
+  configureAudit({});
+  logAudit({ principal: 'p', action: 'a' });
+  const stale = path.join(dir, 'retention-20200101T000000000Z-000000000001.jsonl.gz');
+  fs.writeFileSync(stale, '');
+  fs.utimesSync(stale, new Date('2020-01-01'), new Date('2020-01-01'));
+  configureAudit({ rotateMaxBytes: 1, retentionDays: 30 });
+  logAudit({ principal: 'p', action: 'b' });
+  configureAudit({});
+  assert.equal(fs.existsSync(stale), false);
+  const rotated = (await readAuditRows([file])).find((r) => r.action === 'audit_rotated');
+  assert.deepEqual(rotated?.removedArchives, ['retention-20200101T000000000Z-000000000001.jsonl.gz']);
+});
+
+test('privacy policy hashes, omits or keeps fields and recipient queries still match', async () => {
+  configureAudit({ hashKey: 'hk', privacy: { to: 'hash', summary: 'omit', subject: 'clear' } });
+  const file = freshLog('privacy');
+  logAudit({ principal: 'p', action: 'send_reply', to: 'Alice@Example.com', subject: 'hi' });
+  logAudit({ principal: 'p', action: 'calendar_create', summary: 'Dentist', nested: { to: 'alice@example.com' } });
+  const rows = await readAuditRows([file]);
+  assert.match(rows[0].to as string, /^h:[a-f0-9]{24}$/);
+  assert.equal(rows[0].subject, 'hi');
+  assert.equal('summary' in rows[1], false);
+  assert.equal((rows[1].nested as any).to, rows[0].to);
+  assert.equal(queryAudit(rows, { recipient: 'alice@example.com' }).total, 1);
+  assert.ok(!fs.readFileSync(file, 'utf8').toLowerCase().includes('alice@'));
+  configureAudit({});
+});
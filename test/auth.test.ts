@@ -3,7 +3,9 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { authenticate, issueSignedToken } from '../src/auth.ts';
+import { authenticate, issueSignedToken, signingKeyId } from '../src/auth.ts';
+import { maskSecrets, rotateApiKey, rotateSigningKey } from '../src/keys.ts';
+import { effectiveConfig, hashApiKey } from '../src/agents.ts';
 import crypto from 'node:crypto';
 import type { WrapperConfig } from '../src/types.ts';
 
@@ -58,3 +60,77 @@ test('rejects token with unsafe jti path content', () => {
   const out = authenticate(new Headers({ authorization: `Bearer ${token}` }), cfg);
   assert.equal(out.ok, false);
 });
+
+test('agent keys authenticate as the agent name and stay bound through tokens', () => {
+  const agentCfg: WrapperConfig = { ...cfg, agents: [{ name: 'triage', keyHash: hashApiKey('triage-key') }] };
+  const direct = authenticate(new Headers({ 'x-api-key': 'triage-key' }), agentCfg);
+  assert.equal(direct.ok, true);
+  assert.equal(direct.principal, 'triage');
+  assert.equal(direct.agent, 'triage');
+
+  const token = issueSignedToken('triage', agentCfg, 'triage');
+  const viaToken = authenticate(new Headers({ authorization: `Bearer ${token}` }), agentCfg);
+  assert.equal(viaToken.principal, 'triage');
+
+  const revoked = authenticate(new Headers({ authorization: `Bearer ${issueSignedToken('triage', agentCfg, 'triage')}` }), { ...agentCfg, agents: [] });
+  assert.equal(revoked.ok, false);
+  assert.equal(revoked.reason, 'unknown_agent');
+});
+
+test('effectiveConfig layers agent overrides over global policy', () => {
+  const agentCfg: WrapperConfig = {
+    ...cfg,
+    calendar: { ids: ['primary', 'work'] },
+    agents: [{ name: 'scheduler', keyHash: hashApiKey('s'), calendarIds: ['work'], policy: { email: { maxRecentDays: 1 }, outbound: { maxSendsPerHour: 1 } } }]
+  };
+  const eff = effectiveConfig(agentCfg, 'scheduler');
+  assert.deepEqual(eff.calendar.ids, ['work']);
+  assert.equal(eff.policy.email.maxRecentDays, 1);
+  assert.equal(eff.policy.email.authHandlingMode, 'block');
+  assert.equal(eff.policy.outbound.maxSendsPerHour, 1);
+  assert.equal(eff.policy.outbound.maxSendsPerDay, 20);
+  assert.equal(effectiveConfig(agentCfg, undefined), agentCfg);
+});
+
+test('tokens name their signing key and keep verifying after a rotation', () => {
+  const token = issueSignedToken('agent', cfg);
+  const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+  assert.equal(header.kid, signingKeyId('sign'));
+
+  const rotated = rotateSigningKey(cfg);
+  assert.equal(rotated.auth.previousTokenSigningKey, 'sign');
+  assert.notEqual(rotated.auth.tokenSigningKey, 'sign');
+  assert.equal(authenticate(new Headers({ authorization: `Bearer ${token}` }), rotated).ok, true);
+  const fresh = issueSignedToken('agent', rotated);
+  assert.equal(authenticate(new Headers({ authorization: `Bearer ${fresh}` }), rotated).ok, true);
+
+  // Once the old key leaves the previous slot its tokens stop verifying.
+  const stale = issueSignedToken('agent', cfg);
+  assert.equal(authenticate(new Headers({ authorization: `Bearer ${stale}` }), rotateSigningKey(rotated)).reason, 'invalid_token');
+});
+
+test('rotated api keys keep working only for the grace period', () => {
+  const now = new Date();
+  const shared = rotateApiKey(cfg, { graceHours: 1, now });
+  assert.equal(authenticate(new Headers({ 'x-api-key': shared.key }), shared.cfg).ok, true);
+  assert.equal(authenticate(new Headers({ 'x-api-key': 'k123' }), shared.cfg).ok, true);
+  const expired: WrapperConfig = { ...shared.cfg, auth: { ...shared.cfg.auth, previousApiKeyExpiresAt: new Date(now.getTime() - 1000).toISOString() } };
+  assert.equal(authenticate(new Headers({ 'x-api-key': 'k123' }), expired).ok, false);
+  assert.equal(authenticate(new Headers({ 'x-api-key': 'k123' }), rotateApiKey(cfg, { graceHours: 0 }).cfg).ok, false);
+
+  const agentCfg: WrapperConfig = { ...cfg, agents: [{ name: 'triage', keyHash: hashApiKey('triage-key') }] };
+  const agent = rotateApiKey(agentCfg, { agent: 'triage', graceHours: 24, now });
+  assert.equal(authenticate(new Headers({ 'x-api-key': agent.key }), agent.cfg).principal, 'triage');
+  assert.equal(authenticate(new Headers({ 'x-api-key': 'triage-key' }), agent.cfg).principal, 'triage');
+  assert.equal(agent.cfg.agents![0].previousKeyHash, hashApiKey('triage-key'));
+  assert.throws(() => rotateApiKey(agentCfg, { agent: 'nobody', graceHours: 1 }), /No agent/);
+});
+
+test('show-config masks secrets but keeps their presence visible', () => {
+  const masked = maskSecrets({ ...cfg, audit: { hmacKey: 'h'.repeat(64) } }) as any;
+  assert.equal(masked.auth.apiKey, '<set, 4 chars>');
+  assert.equal(masked.auth.tokenSigningKey, '<set, 4 chars>');
+  assert.equal(masked.auth.previousTokenSigningKey, '');
+  assert.equal(masked.audit.hmacKey, '<set, 64 chars>');
+  assert.equal(masked.gmail.account, 'acct');
+});
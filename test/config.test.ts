@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { validateConfig } from '../src/config-schema.ts';
+import { checkConfigFile } from '../src/config.ts';
+
+const valid = {
+  server: { port: 8787, bind: '127.0.0.1', maxPayloadBytes: 32768, rateLimitPerMinute: 60 },
+  auth: { apiKey: 'a'.repeat(48), tokenSigningKey: 's'.repeat(64), previousTokenSigningKey: '', tokenTtlSeconds: 120 },
+  gmail: { account: 'me@example.com' },
+  calendar: { ids: ['primary'] },
+  policy: {
+    email: { maxRecentDays: 2, authHandlingMode: 'block', threadContextMode: 'full_thread' },
+    calendar: { defaultThisWeek: true, maxPastDays: 0, maxFutureDays: 7, allowAttendeeEmails: true, allowLocation: false, allowMeetingUrls: false },
+    calendarWrite: { enabled: false, allowedCalendarIds: [], allowAttendees: false, sendUpdates: 'none', maxEventsPerHour: 10, maxEventsPerDay: 50 },
+    outbound: { replyOnlyDefault: true, allowAllRecipients: false, allowReplyToAnyone: true, recipientAllowlist: [], domainAllowlist: [], maxSendsPerHour: 5, maxSendsPerDay: 25 }
+  }
+};
+
+const clone = () => JSON.parse(JSON.stringify(valid));
+
+test('a complete config validates without errors or warnings', () => {
+  assert.deepEqual(validateConfig(valid), { errors: [], warnings: [] });
+});
+
+test('every problem is reported with its path', () => {
+  const cfg = clone();
+  delete cfg.policy.outbound.maxSendsPerHour;
+  cfg.policy.outbound.maxSendsPerDay = '25';
+  cfg.policy.email.authHandlingMode = 'blok';
+  cfg.policy.calendar.allowLocatoin = true;
+  cfg.agents = [{ name: 'bad name', keyHash: 'plain-key' }];
+  cfg.policy.email.redaction = { body: { patterns: ['ACCT-(\\d+'] } };
+  cfg.audit = { privacy: { to: 'hash', subject: 'omit' } };
+  const { errors } = validateConfig(cfg);
+  const byPath = Object.fromEntries(errors.map((e) => [e.path, e.message]));
+  assert.match(byPath['policy.outbound.maxSendsPerHour'], /required/);
+  assert.match(byPath['policy.outbound.maxSendsPerDay'], /must be a number/);
+  assert.match(byPath['policy.email.authHandlingMode'], /did you mean "block"/);
+  assert.match(byPath['policy.calendar.allowLocatoin'], /did you mean "allowLocation"/);
+  assert.ok(byPath['agents[0].name']);
+  assert.ok(byPath['agents[0].keyHash']);
+  assert.match(byPath['policy.email.redaction.body.patterns[0]'], /not a valid regular expression/);
+  assert.match(byPath['audit.privacy.to'], /neither audit.hashKey nor audit.hmacKey/);
+  assert.equal(byPath['audit.privacy.subject'], undefined);
+});
+
+test('weak settings produce warnings, not errors', () => {
+  const cfg = clone();
+  cfg.server.bind = '0.0.0.0';
+  cfg.policy.outbound.allowAllRecipients = true;
+  cfg.auth.tokenSigningKey = 'short';
+  const { errors, warnings } = validateConfig(cfg);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(warnings.map((w) => w.path).sort(), ['auth.tokenSigningKey', 'policy.outbound.allowAllRecipients', 'server.bind']);
+});
+
+test('legacy keys are migrated before validation', () => {
+  const cfg = clone();
+  delete cfg.calendar;
+  cfg.calendar = { id: 'work' };
+  delete cfg.policy.email.authHandlingMode;
+  cfg.policy.email.returnSensitiveAuth = true;
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gshield-config-')), 'c.json');
+  fs.writeFileSync(file, JSON.stringify(cfg));
+  const out = checkConfigFile(file);
+  assert.deepEqual(out.errors, []);
+  assert.deepEqual(out.cfg.calendar.ids, ['work']);
+  assert.equal(out.cfg.policy.email.authHandlingMode, 'warn');
+});
@@ -0,0 +1,122 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { buildApp } from '../src/server.ts';
+import { MockProvider } from '../src/provider.ts';
+import { hashApiKey } from '../src/agents.ts';
+import { MCP_TOOLS, createMcpHandler, serveMcpStdio } from '../src/mcp.ts';
+import type { WrapperConfig } from '../src/types.ts';
+
+const stamp = Date.now();
+const auditFile = path.join(os.tmpdir(), `gshield-mcp-audit-${stamp}.jsonl`);
+process.env.SECURE_WRAPPER_AUDIT = auditFile;
+process.env.SECURE_WRAPPER_REPLAY_DIR = path.join(os.tmpdir(), 'gshield-replay-test');
+process.env.SECURE_WRAPPER_RATE = path.join(os.tmpdir(), `gshield-mcp-send-${stamp}.json`);
+process.env.SECURE_WRAPPER_CALENDAR_RATE = path.join(os.tmpdir(), `gshield-mcp-cal-${stamp}.json`);
+process.env.SECURE_WRAPPER_CURSOR_DIR = path.join(os.tmpdir(), `gshield-mcp-cursors-${stamp}`);
+
+const cfg: WrapperConfig = {
+  server: { port: 0, bind: '127.0.0.1', maxPayloadBytes: 2048, rateLimitPerMinute: 100 },
+  auth: { apiKey: '', tokenSigningKey: 'sign', previousTokenSigningKey: '', tokenTtlSeconds: 3600 },
+  gmail: { account: 'acct' },
+  calendar: { ids: ['primary'] },
+  policy: {
+    email: { maxRecentDays: 2, authHandlingMode: 'block', threadContextMode: 'full_thread' },
+    calendar: { defaultThisWeek: true, maxPastDays: 0, maxFutureDays: 7, allowAttendeeEmails: true, allowLocation: false, allowMeetingUrls: false },
+    calendarWrite: { enabled: false, allowedCalendarIds: [], allowAttendees: false, sendUpdates: 'none' as const, maxEventsPerHour: 10, maxEventsPerDay: 50 },
+    outbound: { replyOnlyDefault: false, allowAllRecipients: false, allowReplyToAnyone: true, recipientAllowlist: ['ok@example.com'], domainAllowlist: [], maxSendsPerHour: 5, maxSendsPerDay: 20 }
+  },
+  agents: [{ name: 'assistant', keyHash: hashApiKey('assistant-key'), scopes: ['email:read', 'email:send'] }]
+};
+
+const provider = new MockProvider({ emails: [
+  { id: '1', threadId: 't1', subject: 'Lunch?', snippet: 'Are you free', body: 'Are you free', internalDate: '1' },
+  { id: '2', threadId: 't2', subject: 'Your verification code', snippet: 'Code 123456', body: 'Code 123456', internalDate: '2' }
+] });
+
+function handler() {
+  return createMcpHandler({ fetch: buildApp(cfg, provider).fetch, apiKey: 'assistant-key' });
+}
+
+const call = (handle: ReturnType<typeof handler>, name: string, args: Record<string, unknown>) =>
+  handle({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }) as Promise<any>;
+
+test('initialize and tools/list describe every tool with a schema', async () => {
+  const handle = handler();
+  const init = await handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {} } }) as any;
+  assert.equal(init.result.protocolVersion, '2025-03-26');
+  assert.ok(init.result.capabilities.tools);
+  assert.equal(await handle({ jsonrpc: '2.0', method: 'notifications/initialized' }), null);
+
+  const list = await handle({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) as any;
+  assert.deepEqual(list.result.tools.map((t: any) => t.name), ['email_unread', 'email_search', 'email_message', 'email_attachment', 'email_thread', 'email_modify', 'calendar_events', 'calendar_create', 'calendar_update', 'email_reply', 'email_send', 'email_draft', 'email_draft_update']);
+  assert.ok(list.result.tools.every((t: any) => t.inputSchema.type === 'object'));
+  assert.deepEqual(MCP_TOOLS.find((t) => t.name === 'email_send')!.inputSchema.required, ['to', 'subject', 'body']);
+});
+
+test('tool calls go through the same filters, scopes and audit as the routes', async () => {
+  const handle = handler();
+  const unread = await call(handle, 'email_unread', { days: 30 });
+  assert.equal(unread.result.isError, false);
+  assert.equal(unread.result.structuredContent.days, 2);
+  assert.deepEqual(unread.result.structuredContent.items.map((m: any) => m.id), ['1']);
+  assert.deepEqual(JSON.parse(unread.result.content[0].text), unread.result.structuredContent);
+
+  const denied = await call(handle, 'email_send', { to: 'bad@example.com', subject: 'x', body: 'y' });
+  assert.equal(denied.result.isError, true);
+  assert.deepEqual(denied.result.structuredContent, { status: 403, error: 'recipient_not_allowed', rejected: [{ address: 'bad@example.com', field: 'to', reason: 'recipient_not_allowed' }] });
+
+  const outOfScope = await call(handle, 'calendar_events', {});
+  assert.equal(outOfScope.result.structuredContent.error, 'insufficient_scope');
+
+  const sent = await call(handle, 'email_send', { to: 'ok@example.com', subject: 'x', body: 'y' });
+  assert.equal(sent.result.structuredContent.id, 'send-mock');
+
+  const rows = fs.readFileSync(auditFile, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+  assert.ok(rows.some((r) => r.principal === 'assistant' && r.action === 'email_unread' && r.blockedCount === 1));
+  assert.ok(rows.some((r) => r.principal === 'assistant' && r.action === 'scope_deny' && r.scope === 'calendar:read'));
+  assert.ok(rows.some((r) => r.principal === 'assistant' && r.action === 'send_new'));
+});
+
+test('protocol errors use JSON-RPC codes', async () => {
+  const handle = handler();
+  assert.equal((await handle({ jsonrpc: '2.0', id: 1, method: 'resources/list' }) as any).error.code, -32601);
+  assert.equal((await call(handle, 'email_delete', {})).error.code, -32602);
+  assert.equal((await handle({ id: 1, method: 'ping' }) as any).error.code, -32600);
+});
+
+test('stdio transport answers newline-delimited messages in order', async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (d: Buffer) => chunks.push(d));
+  const done = serveMcpStdio(handler(), input, output);
+  input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+  input.write('not json\n');
+  input.write('{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"email_unread","arguments":{}}}\n');
+  input.end();
+  await done;
+  const lines = Buffer.concat(chunks).toString('utf8').trim().split('\n').map((l: string) => JSON.parse(l));
+  assert.deepEqual(lines[0], { jsonrpc: '2.0', id: 1, result: {} });
+  assert.equal(lines[1].error.code, -32700);
+  assert.equal(lines[2].id, 2);
+  assert.equal(lines[2].result.structuredContent.count, 1);
+});
+
+test('stdio transport answers JSON that is not a message and keeps going', async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (d: Buffer) => chunks.push(d));
+  const done = serveMcpStdio(handler(), input, output);
+  for (const line of ['null', '42', '"ping"', '[]']) input.write(`${line}\n`);
+  input.write('{"jsonrpc":"2.0","id":3,"method":"ping"}\n');
+  input.end();
+  await done;
+  const lines = Buffer.concat(chunks).toString('utf8').trim().split('\n').map((l: string) => JSON.parse(l));
+  const invalid = { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } };
+  assert.deepEqual(lines, [invalid, invalid, invalid, invalid, { jsonrpc: '2.0', id: 3, result: {} }]);
+});
@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { parseEmailOutput } from '../src/provider.ts';
+import { parseDraftOutput, parseEmailOutput } from '../src/provider.ts';
 
 test('non-json gog output does not become garbage email items', () => {
   const out = parseEmailOutput('totally non-json output\nwarning: foo\nsubject line');
@@ -12,3 +12,25 @@ test('jsonl fallback accepts only valid email item objects', () => {
   assert.equal(out.length, 1);
   assert.equal(out[0].id, '1');
 });
+
+test('parseEmailOutput carries Gmail labelIds as labels', () => {
+  const out = parseEmailOutput('[{"id":"1","threadId":"t1","labelIds":["INBOX","Label_7"]},{"id":"2","threadId":"t2","labels":["Work"],"labelIds":["X"]}]');
+  assert.deepEqual(out.map((m) => m.labels), [['INBOX', 'Label_7'], ['Work']]);
+});
+
+test('parseEmailOutput normalises attachment metadata and drops malformed entries', () => {
+  const out = parseEmailOutput(JSON.stringify([{ id: '1', threadId: 't1', attachments: [
+    { attachmentId: 'x1', filename: 'a.pdf', mimeType: 'application/pdf', size: '120' },
+    { filename: 'no-id.txt', size: 3 },
+    { id: 'x2', filename: 'b.bin', size: 'big' }
+  ] }]));
+  assert.deepEqual(out[0].attachments, [{ id: 'x1', filename: 'a.pdf', mimeType: 'application/pdf', size: 120 }]);
+});
+
+test('parseDraftOutput reads flat and Gmail-shaped drafts', () => {
+  assert.deepEqual(parseDraftOutput('{"id":"r1","to":"a@x.com","subject":"Hi","body":"b"}'), { id: 'r1', to: ['a@x.com'], subject: 'Hi', body: 'b' });
+  const wrapped = { id: 'r2', message: { threadId: 't1', body: 'b', payload: { headers: [{ name: 'To', value: 'A <a@x.com>' }, { name: 'Subject', value: 'Re: Hi' }] } } };
+  assert.deepEqual(parseDraftOutput(JSON.stringify(wrapped)), { id: 'r2', threadId: 't1', to: ['a@x.com'], subject: 'Re: Hi', body: 'b' });
+  assert.equal(parseDraftOutput('not json'), null);
+  assert.equal(parseDraftOutput('{"message":{}}'), null);
+});
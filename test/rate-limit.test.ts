@@ -11,9 +11,22 @@ test('consumeSendQuota increments atomically and enforces limits', () => {
   fs.rmSync(rateFile, { force: true });
   fs.rmSync(lockFile, { force: true });
 
-  assert.equal(consumeSendQuota(2, 10).ok, true);
-  assert.equal(consumeSendQuota(2, 10).ok, true);
-  const blocked = consumeSendQuota(2, 10);
+  assert.equal(consumeSendQuota([{ maxHour: 2, maxDay: 10 }]).ok, true);
+  assert.equal(consumeSendQuota([{ maxHour: 2, maxDay: 10 }]).ok, true);
+  const blocked = consumeSendQuota([{ maxHour: 2, maxDay: 10 }]);
   assert.equal(blocked.ok, false);
   assert.equal(blocked.reason, 'hour_limit_exceeded');
 });
+
+test('an agent counts against its own caps and the shared total, or neither', () => {
+  const scoped = path.join(process.cwd(), 'logs', 'send-counters.rl-agent.json');
+  for (const f of [rateFile, scoped]) fs.rmSync(f, { force: true });
+  const total = { maxHour: 3, maxDay: 10 };
+  const agent = { scope: 'rl-agent', maxHour: 5, maxDay: 10 };
+  assert.equal(consumeSendQuota([total, agent], 2).ok, true);
+  assert.equal(consumeSendQuota([total]).ok, true);
+  // The agent has room for three more, but the total has none left.
+  assert.equal(consumeSendQuota([total, agent]).reason, 'hour_limit_exceeded');
+  assert.equal(JSON.parse(fs.readFileSync(scoped, 'utf8')).hourCount, 2);
+  fs.rmSync(scoped, { force: true });
+});